@@ -2,12 +2,14 @@ import { t } from "@lib/i18n";
 
 interface BlackCardProps {
   text: string;
+  /** Number of white cards this prompt takes — shown as "Pick N" when above 1 */
+  pick?: number;
   /** Animate in on mount */
   animate?: boolean;
   className?: string;
 }
 
-export function BlackCard({ text, animate = false, className = "" }: BlackCardProps) {
+export function BlackCard({ text, pick = 1, animate = false, className = "" }: BlackCardProps) {
   return (
     <div
       className={`card card-black ${animate ? "anim-zoom-in" : ""} ${className}`}
@@ -16,6 +18,7 @@ export function BlackCard({ text, animate = false, className = "" }: BlackCardPr
       aria-roledescription="black card"
     >
       <span className="card-text">{text}</span>
+      {pick > 1 && <span className="card-pick">{t("card.pick_n", undefined, { n: pick })}</span>}
       <span className="card-logo">{t("app.title")}</span>
     </div>
   );
@@ -6,12 +6,14 @@ export type WhiteCardState = "idle" | "selected" | "submitted" | "winner";
 interface WhiteCardProps {
   text: string;
   state?: WhiteCardState;
+  /** 1-based blank position shown as a badge on multi-pick selections */
+  order?: number;
   onClick?: () => void;
   animate?: boolean;
   className?: string;
 }
 
-export function WhiteCard({ text, state = "idle", onClick, animate = false, className = "" }: WhiteCardProps) {
+export function WhiteCard({ text, state = "idle", order, onClick, animate = false, className = "" }: WhiteCardProps) {
   const isWinner   = state === "winner";
   const isSelected = state === "selected";
   const isSelectable = !!onClick && state !== "submitted";
@@ -42,6 +44,7 @@ export function WhiteCard({ text, state = "idle", onClick, animate = false, clas
       aria-pressed={isSelectable ? isSelected : undefined}
       aria-label={isSelectable ? text : undefined}
     >
+      {order !== undefined && <span className="card-order">{order}</span>}
       <span className="card-text card-text-sm">{text}</span>
       <span className="card-logo">{t("app.title")}</span>
     </div>
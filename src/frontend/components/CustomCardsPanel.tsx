@@ -0,0 +1,119 @@
+import { useState, type FormEvent } from "react";
+import { t } from "@lib/i18n";
+import { normalizeBlackCard } from "@lib/cards";
+import { useLang } from "../hooks/useLang";
+import { useGame } from "../services/gameStore";
+import type { CustomCard, CustomCardKind } from "@lib/types";
+
+interface CustomCardsPanelProps {
+  whiteCards: CustomCard[];
+  blackCards: CustomCard[];
+  myPlayerId: string;
+  isHost: boolean;
+  /** Max cards of each kind a player may contribute (`settings.customCardsPerPlayer`). */
+  quota: number;
+}
+
+/** Lobby panel for writing custom white cards / prompts and (for the host) moderating them. */
+export function CustomCardsPanel({ whiteCards, blackCards, myPlayerId, isHost, quota }: CustomCardsPanelProps) {
+  useLang();
+  const { sendEvent } = useGame();
+  const [text, setText]   = useState("");
+  const [kind, setKind]   = useState<CustomCardKind>("white");
+  const [error, setError] = useState("");
+
+  const cards      = kind === "black" ? blackCards : whiteCards;
+  const myCount    = cards.filter(c => c.authorId === myPlayerId).length;
+  const canAddMore = myCount < quota;
+
+  function handleAdd(e: FormEvent) {
+    e.preventDefault();
+    setError("");
+    const trimmed = text.trim();
+    if (!trimmed || !canAddMore) return;
+    // Mirror the server check so the author gets instant feedback
+    if (kind === "black" && !normalizeBlackCard(trimmed)) {
+      setError(t("error.invalid_black_card"));
+      return;
+    }
+    sendEvent("add_custom_card", { text: trimmed, kind });
+    setText("");
+  }
+
+  function handleRemove(cardId: string) {
+    sendEvent("remove_custom_card", { cardId });
+  }
+
+  function renderRow(c: CustomCard, isBlack: boolean) {
+    return (
+      <div key={c.id} className={`custom-card-row${isBlack ? " custom-card-row--black" : ""}`}>
+        <span className="custom-card-text">{c.text}</span>
+        <span className="text-muted text-xs">{c.authorName}</span>
+        {(isHost || c.authorId === myPlayerId) && (
+          <button
+            className="btn btn-ghost btn-sm"
+            aria-label={`${t("custom.remove")}: ${c.text}`}
+            title={t("custom.remove")}
+            onClick={() => handleRemove(c.id)}
+            style={{ fontSize: "0.7rem", padding: "1px 6px" }}
+          >
+            ✕
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="settings-panel">
+      <h3>{t("custom.title")}</h3>
+
+      <div className="lang-switcher" role="group" aria-label={t("custom.title")}>
+        {(["white", "black"] as const).map(k => (
+          <button
+            key={k}
+            type="button"
+            className={`btn btn-ghost btn-sm ${kind === k ? "text-accent" : ""}`}
+            aria-pressed={kind === k}
+            onClick={() => { setKind(k); setError(""); }}
+          >
+            {t(k === "black" ? "custom.kind_black" : "custom.kind_white")}
+          </button>
+        ))}
+      </div>
+
+      <form className="field" onSubmit={handleAdd}>
+        <label>
+          {t(kind === "black" ? "custom.write_black" : "custom.write")}{" "}
+          <span className="text-muted text-xs">
+            ({t("custom.quota", undefined, { count: myCount, total: quota })})
+          </span>
+        </label>
+        <div style={{ display: "flex", gap: 8 }}>
+          <input
+            className="input"
+            type="text"
+            placeholder={t(kind === "black" ? "custom.placeholder_black" : "custom.placeholder")}
+            value={text}
+            maxLength={100}
+            disabled={!canAddMore}
+            onChange={e => setText(e.target.value)}
+          />
+          <button type="submit" className="btn btn-secondary btn-sm" disabled={!canAddMore || !text.trim()}>
+            {t("custom.add")}
+          </button>
+        </div>
+        {error && <p className="field-error">{error}</p>}
+      </form>
+
+      {whiteCards.length === 0 && blackCards.length === 0 ? (
+        <p className="text-muted text-sm">{t("custom.empty")}</p>
+      ) : (
+        <div className="custom-card-list">
+          {blackCards.map(c => renderRow(c, true))}
+          {whiteCards.map(c => renderRow(c, false))}
+        </div>
+      )}
+    </div>
+  );
+}
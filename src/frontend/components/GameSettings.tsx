@@ -1,6 +1,8 @@
-import { t } from "@lib/i18n";
+import { t, type TranslationKey } from "@lib/i18n";
+import { CARD_PACKS, getLanguagePacks } from "@lib/cards";
 import { useLang } from "../hooks/useLang";
-import type { GameSettings } from "@lib/types";
+import { SETTING_BOUNDS } from "@lib/types";
+import type { GameSettings, CardLanguage, JudgingMode, RerollScope, HetmanRotation, AdvancedSettingKey } from "@lib/types";
 
 interface GameSettingsPanelProps {
   settings: GameSettings;
@@ -15,6 +17,13 @@ export default function GameSettingsPanel({ settings, onChange, editable = false
     onChange?.({ ...settings, ...partial });
   }
 
+  function togglePack(packId: string, on: boolean) {
+    const packs = on
+      ? [...settings.packs, packId]
+      : settings.packs.filter(id => id !== packId);
+    patch({ packs });
+  }
+
   const timeLimitOptions: { label: string; value: number | null }[] = [
     { label: t("settings.time_limit.none"), value: null },
     { label: t("settings.time_limit.30"),  value: 30 },
@@ -23,6 +32,66 @@ export default function GameSettingsPanel({ settings, onChange, editable = false
     { label: t("settings.time_limit.120"), value: 120 },
   ];
 
+  const pointsToWinOptions: { label: string; value: number | null }[] = [
+    { label: t("settings.points_to_win.off"), value: null },
+    { label: "3",  value: 3 },
+    { label: "5",  value: 5 },
+    { label: "7",  value: 7 },
+    { label: "10", value: 10 },
+  ];
+
+  const judgingModeOptions: { label: string; value: JudgingMode }[] = [
+    { label: t("settings.judging_mode.hetman"),    value: "hetman" },
+    { label: t("settings.judging_mode.ranked"),    value: "ranked" },
+    { label: t("settings.judging_mode.democracy"), value: "democracy" },
+  ];
+
+  const hetmanRotationOptions: { label: string; value: HetmanRotation }[] = [
+    { label: t("settings.hetman_rotation.sequential"), value: "sequential" },
+    { label: t("settings.hetman_rotation.random"),     value: "random" },
+    { label: t("settings.hetman_rotation.winner"),     value: "winner" },
+    { label: t("settings.hetman_rotation.fixed"),      value: "fixed" },
+  ];
+
+  const rerollOptions: { label: string; value: number }[] = [
+    { label: t("settings.rerolls.off"), value: 0 },
+    { label: "1", value: 1 },
+    { label: "2", value: 2 },
+    { label: "3", value: 3 },
+  ];
+
+  const rerollScopeOptions: { label: string; value: RerollScope }[] = [
+    { label: t("settings.reroll_scope.round"), value: "round" },
+    { label: t("settings.reroll_scope.game"),  value: "game" },
+  ];
+
+  const advancedFields: { key: AdvancedSettingKey; label: TranslationKey }[] = [
+    { key: "handSize",             label: "settings.hand_size" },
+    { key: "minPlayers",           label: "settings.min_players" },
+    { key: "maxPlayers",           label: "settings.max_players" },
+    { key: "blackCardChoices",     label: "settings.black_card_choices" },
+    { key: "revealDelaySec",       label: "settings.reveal_delay" },
+    { key: "advanceDelaySec",      label: "settings.advance_delay" },
+    { key: "inactivityTimeoutMin", label: "settings.inactivity_timeout" },
+    { key: "sessionLimitMin",      label: "settings.session_limit" },
+    { key: "sessionExtensionMin",  label: "settings.session_extension" },
+    { key: "reconnectGraceMin",    label: "settings.reconnect_grace" },
+  ];
+
+  /** Clamp to the server's bounds; the player range stays consistent whichever end moves. */
+  function patchAdvanced(key: AdvancedSettingKey, raw: string) {
+    const [min, max] = SETTING_BOUNDS[key];
+    const value = Math.max(min, Math.min(max, Math.round(Number(raw) || min)));
+    if (key === "minPlayers") patch({ minPlayers: value, maxPlayers: Math.max(value, settings.maxPlayers) });
+    else if (key === "maxPlayers") patch({ maxPlayers: value, minPlayers: Math.min(value, settings.minPlayers) });
+    else patch({ [key]: value });
+  }
+
+  const cardLanguageOptions: { label: string; value: CardLanguage }[] = [
+    { label: t("app.lang.uk"), value: "uk" },
+    { label: t("app.lang.en"), value: "en" },
+  ];
+
   return (
     <div className="settings-panel">
       <h3>{t("settings.title")}</h3>
@@ -36,14 +105,50 @@ export default function GameSettingsPanel({ settings, onChange, editable = false
             type="number"
             min={1}
             max={30}
-            value={settings.maxRounds}
+            value={settings.maxRounds ?? ""}
+            disabled={settings.maxRounds === null}
             onChange={e => patch({ maxRounds: Math.max(1, Math.min(30, Number(e.target.value))) })}
           />
         ) : (
-          <span>{settings.maxRounds}</span>
+          <span>{settings.maxRounds ?? t("settings.no_round_limit")}</span>
+        )}
+      </div>
+
+      {/* Points to win */}
+      <div className="field">
+        <label>{t("settings.points_to_win")}</label>
+        {editable ? (
+          <select
+            className="select"
+            value={settings.pointsToWin ?? "none"}
+            onChange={e => {
+              const v = e.target.value;
+              // Without a points target the round cap is the only way the game ends
+              if (v === "none") patch({ pointsToWin: null, maxRounds: settings.maxRounds ?? 10 });
+              else patch({ pointsToWin: Number(v) });
+            }}
+          >
+            {pointsToWinOptions.map(o => (
+              <option key={String(o.value)} value={o.value ?? "none"}>{o.label}</option>
+            ))}
+          </select>
+        ) : (
+          <span>{pointsToWinOptions.find(o => o.value === settings.pointsToWin)?.label}</span>
         )}
       </div>
 
+      {settings.pointsToWin !== null && (
+        <label className="checkbox-field">
+          <input
+            type="checkbox"
+            checked={settings.maxRounds === null}
+            disabled={!editable}
+            onChange={e => patch({ maxRounds: e.target.checked ? null : 10 })}
+          />
+          {t("settings.no_round_limit")}
+        </label>
+      )}
+
       {/* Time limit */}
       <div className="field">
         <label>{t("settings.time_limit")}</label>
@@ -65,17 +170,280 @@ export default function GameSettingsPanel({ settings, onChange, editable = false
         )}
       </div>
 
-      {/* Rotate hetman */}
+      {/* Hetman time limits — when they run out the server picks at random */}
+      <div className="field">
+        <label>{t("settings.pick_time_limit")}</label>
+        {editable ? (
+          <select
+            className="select"
+            value={settings.hetmanPickTimeLimitSec ?? "none"}
+            onChange={e => {
+              const v = e.target.value;
+              patch({ hetmanPickTimeLimitSec: v === "none" ? null : Number(v) });
+            }}
+          >
+            {timeLimitOptions.map(o => (
+              <option key={String(o.value)} value={o.value ?? "none"}>{o.label}</option>
+            ))}
+          </select>
+        ) : (
+          <span>{timeLimitOptions.find(o => o.value === settings.hetmanPickTimeLimitSec)?.label}</span>
+        )}
+      </div>
+
+      <div className="field">
+        <label>{t(settings.judgingMode === "democracy" ? "settings.voting_time_limit" : "settings.judging_time_limit")}</label>
+        {editable ? (
+          <select
+            className="select"
+            value={settings.judgingTimeLimitSec ?? "none"}
+            onChange={e => {
+              const v = e.target.value;
+              patch({ judgingTimeLimitSec: v === "none" ? null : Number(v) });
+            }}
+          >
+            {timeLimitOptions.map(o => (
+              <option key={String(o.value)} value={o.value ?? "none"}>{o.label}</option>
+            ))}
+          </select>
+        ) : (
+          <span>{timeLimitOptions.find(o => o.value === settings.judgingTimeLimitSec)?.label}</span>
+        )}
+      </div>
+
+      {/* Judging mode */}
+      <div className="field">
+        <label>{t("settings.judging_mode")}</label>
+        {editable ? (
+          <select
+            className="select"
+            value={settings.judgingMode}
+            onChange={e => patch({ judgingMode: e.target.value as JudgingMode })}
+          >
+            {judgingModeOptions.map(o => (
+              <option key={o.value} value={o.value}>{o.label}</option>
+            ))}
+          </select>
+        ) : (
+          <span>{judgingModeOptions.find(o => o.value === settings.judgingMode)?.label}</span>
+        )}
+      </div>
+
+      {/* Black-card rerolls */}
+      <div className="field">
+        <label>{t("settings.rerolls")}</label>
+        {editable ? (
+          <select
+            className="select"
+            value={settings.blackCardRerolls}
+            onChange={e => patch({ blackCardRerolls: Number(e.target.value) })}
+          >
+            {rerollOptions.map(o => (
+              <option key={o.value} value={o.value}>{o.label}</option>
+            ))}
+          </select>
+        ) : (
+          <span>{rerollOptions.find(o => o.value === settings.blackCardRerolls)?.label}</span>
+        )}
+      </div>
+
+      {settings.blackCardRerolls > 0 && (
+        <div className="field">
+          <label>{t("settings.reroll_scope")}</label>
+          {editable ? (
+            <select
+              className="select"
+              value={settings.blackCardRerollScope}
+              onChange={e => patch({ blackCardRerollScope: e.target.value as RerollScope })}
+            >
+              {rerollScopeOptions.map(o => (
+                <option key={o.value} value={o.value}>{o.label}</option>
+              ))}
+            </select>
+          ) : (
+            <span>{rerollScopeOptions.find(o => o.value === settings.blackCardRerollScope)?.label}</span>
+          )}
+        </div>
+      )}
+
+      {/* Sudden death */}
+      <label className="checkbox-field">
+        <input
+          type="checkbox"
+          checked={settings.suddenDeath}
+          disabled={!editable}
+          onChange={e => patch({ suddenDeath: e.target.checked })}
+        />
+        {t("settings.sudden_death")}
+      </label>
+
+      {/* Rando Cardrissian */}
+      <label className="checkbox-field">
+        <input
+          type="checkbox"
+          checked={settings.rando}
+          disabled={!editable}
+          onChange={e => patch({ rando: e.target.checked })}
+        />
+        {t("settings.rando")}
+      </label>
+
+      {/* Rebooting the Universe */}
       <label className="checkbox-field">
         <input
           type="checkbox"
-          checked={settings.rotateHetman}
+          checked={settings.allowRedraw}
           disabled={!editable}
-          onChange={e => patch({ rotateHetman: e.target.checked })}
+          onChange={e => patch({ allowRedraw: e.target.checked })}
         />
-        {t("settings.rotate_hetman")}
+        {t("settings.allow_redraw")}
       </label>
 
+      {/* Gambling */}
+      <label className="checkbox-field">
+        <input
+          type="checkbox"
+          checked={settings.allowGambling}
+          disabled={!editable}
+          onChange={e => patch({ allowGambling: e.target.checked })}
+        />
+        {t("settings.allow_gambling")}
+      </label>
+
+      {/* Card language */}
+      <div className="field">
+        <label>{t("settings.card_language")}</label>
+        {editable ? (
+          <select
+            className="select"
+            value={settings.cardLanguage}
+            onChange={e => {
+              // Switching language swaps in that language's packs; the host can fine-tune below
+              const cardLanguage = e.target.value as CardLanguage;
+              patch({ cardLanguage, packs: getLanguagePacks(cardLanguage) });
+            }}
+          >
+            {cardLanguageOptions.map(o => (
+              <option key={o.value} value={o.value}>{o.label}</option>
+            ))}
+          </select>
+        ) : (
+          <span>{cardLanguageOptions.find(o => o.value === settings.cardLanguage)?.label}</span>
+        )}
+      </div>
+
+      {/* Card packs */}
+      <div className="field">
+        <label>{t("settings.packs")}</label>
+        {CARD_PACKS.map(pack => (
+          <label key={pack.id} className="checkbox-field">
+            <input
+              type="checkbox"
+              checked={settings.packs.includes(pack.id)}
+              // The server needs at least one pack, so the last one can't be unticked
+              disabled={!editable || (settings.packs.length === 1 && settings.packs.includes(pack.id))}
+              onChange={e => togglePack(pack.id, e.target.checked)}
+            />
+            {t(`pack.${pack.id}` as TranslationKey)}
+            <span className="text-muted text-xs">
+              {t("settings.packs.count", undefined, { black: pack.black.length, white: pack.white.length })}
+            </span>
+          </label>
+        ))}
+      </div>
+
+      {/* Hetman rotation */}
+      <div className="field">
+        <label>{t("settings.hetman_rotation")}</label>
+        {editable ? (
+          <select
+            className="select"
+            value={settings.hetmanRotation}
+            onChange={e => patch({ hetmanRotation: e.target.value as HetmanRotation })}
+          >
+            {hetmanRotationOptions.map(o => (
+              <option key={o.value} value={o.value}>{o.label}</option>
+            ))}
+          </select>
+        ) : (
+          <span>{hetmanRotationOptions.find(o => o.value === settings.hetmanRotation)?.label}</span>
+        )}
+      </div>
+
+      {/* Mid-game joins */}
+      <label className="checkbox-field">
+        <input
+          type="checkbox"
+          checked={settings.allowLateJoin}
+          disabled={!editable}
+          onChange={e => patch({ allowLateJoin: e.target.checked })}
+        />
+        {t("settings.allow_late_join")}
+      </label>
+
+      {settings.allowLateJoin && (
+        <label className="checkbox-field">
+          <input
+            type="checkbox"
+            checked={settings.lateJoinCatchUp}
+            disabled={!editable}
+            onChange={e => patch({ lateJoinCatchUp: e.target.checked })}
+          />
+          {t("settings.late_join_catch_up")}
+        </label>
+      )}
+
+      {/* Custom cards */}
+      <label className="checkbox-field">
+        <input
+          type="checkbox"
+          checked={settings.allowCustomCards}
+          disabled={!editable}
+          onChange={e => patch({ allowCustomCards: e.target.checked })}
+        />
+        {t("settings.allow_custom")}
+      </label>
+
+      {settings.allowCustomCards && (
+        <div className="field">
+          <label>{t("settings.custom_quota")}</label>
+          {editable ? (
+            <input
+              className="input"
+              type="number"
+              min={1}
+              max={10}
+              value={settings.customCardsPerPlayer}
+              onChange={e => patch({ customCardsPerPlayer: Math.max(1, Math.min(10, Number(e.target.value))) })}
+            />
+          ) : (
+            <span>{settings.customCardsPerPlayer}</span>
+          )}
+        </div>
+      )}
+
+      {/* Advanced pacing */}
+      <details className="settings-advanced">
+        <summary>{t("settings.advanced")}</summary>
+        {advancedFields.map(({ key, label }) => (
+          <div className="field" key={key}>
+            <label>{t(label)}</label>
+            {editable ? (
+              <input
+                className="input"
+                type="number"
+                min={SETTING_BOUNDS[key][0]}
+                max={SETTING_BOUNDS[key][1]}
+                value={settings[key]}
+                onChange={e => patchAdvanced(key, e.target.value)}
+              />
+            ) : (
+              <span>{settings[key]}</span>
+            )}
+          </div>
+        ))}
+      </details>
+
       {/* Password */}
       {editable && (
         <div className="field">
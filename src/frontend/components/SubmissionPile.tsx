@@ -10,11 +10,16 @@ import type { AnonymousSubmission, Submission } from "@lib/types";
 interface JudgingPileProps {
   submissions: AnonymousSubmission[];
   onSelect: (id: string) => void;
+  /** Whether this viewer judges — the Hetman, or every voter in democracy mode. Others see card backs. */
   isHetman: boolean;
   selectedId?: string;
+  /** Ranked judging: the Hetman's picks so far, best first — each shows its place. */
+  ranking?: string[];
+  /** Democracy mode: the viewer's own submissions, shown but not selectable. */
+  ownIds?: string[];
 }
 
-export function JudgingPile({ submissions, onSelect, isHetman, selectedId }: JudgingPileProps) {
+export function JudgingPile({ submissions, onSelect, isHetman, selectedId, ranking = [], ownIds = [] }: JudgingPileProps) {
   useLang();
   const pileRef = useRef<HTMLDivElement>(null);
 
@@ -61,44 +66,109 @@ export function JudgingPile({ submissions, onSelect, isHetman, selectedId }: Jud
       aria-label={t("game.pick_winner")}
       onKeyDown={handleKeyDown}
     >
-      {submissions.map(s => (
-        <WhiteCard
-          key={s.id}
-          text={s.card}
-          state={selectedId === s.id ? "selected" : "idle"}
-          onClick={() => onSelect(s.id)}
-          animate
-        />
-      ))}
+      {submissions.map(s => {
+        const place      = ranking.indexOf(s.id) + 1;
+        const isSelected = selectedId === s.id || place > 0;
+        const isOwn      = ownIds.includes(s.id);
+        if (s.cards.length === 1) {
+          return (
+            <WhiteCard
+              key={s.id}
+              text={s.cards[0]!.text}
+              state={isOwn ? "submitted" : isSelected ? "selected" : "idle"}
+              order={place || undefined}
+              onClick={() => onSelect(s.id)}
+              animate
+            />
+          );
+        }
+        if (isOwn) {
+          return (
+            <div key={s.id} className="submission-group" aria-label={t("game.your_answer")}>
+              {s.cards.map((card, i) => (
+                <WhiteCard key={card.id} text={card.text} order={i + 1} state="submitted" animate />
+              ))}
+            </div>
+          );
+        }
+        // Multi-card answer: the whole group is one selectable unit
+        return (
+          <div
+            key={s.id}
+            className={`submission-group selectable${isSelected ? " selected" : ""}`}
+            role="button"
+            tabIndex={0}
+            aria-pressed={isSelected}
+            aria-label={s.cards.map(c => c.text).join(" / ")}
+            onClick={() => onSelect(s.id)}
+            onKeyDown={e => {
+              if (e.key === "Enter" || e.key === " ") {
+                e.preventDefault();
+                onSelect(s.id);
+              }
+            }}
+          >
+            {place > 0 && <span className="podium-place">{place}</span>}
+            {s.cards.map((card, i) => (
+              <WhiteCard key={card.id} text={card.text} order={i + 1} animate />
+            ))}
+          </div>
+        );
+      })}
     </div>
   );
 }
 
-// ── During reveal: show the winning card ─────────────────────────────────────
+// ── During reveal: show the winning card (the podium in ranked judging) ──────
 
 interface RevealPileProps {
   revealed: Submission[];
   playerNames: Record<string, string>;
   myPlayerId: string;
+  /** Democracy mode: vote count per submission anonymousId. */
+  votes?: Record<string, number> | null;
 }
 
-export function RevealPile({ revealed, playerNames, myPlayerId }: RevealPileProps) {
+export function RevealPile({ revealed, playerNames, myPlayerId, votes }: RevealPileProps) {
   useLang();
 
+  // Placed answers first, in podium order
+  const ordered = [...revealed].sort((a, b) => (a.placement ?? Infinity) - (b.placement ?? Infinity));
+  const podium  = revealed.some(s => s.placement !== null && s.placement > 1);
+
   return (
     <div className="submission-pile">
-      {revealed.map(s => (
+      {ordered.map(s => (
         <div key={s.anonymousId} className="submission-card-wrapper">
-          <WhiteCard
-            text={s.card}
-            state={s.isWinner ? "winner" : "idle"}
-            animate
-          />
+          {podium && s.placement !== null && (
+            <div className={`podium-label podium-label--${s.placement}`}>
+              {t("game.place_n", undefined, { n: s.placement })}
+            </div>
+          )}
+          <div className="submission-group">
+            {s.cards.map((card, i) => (
+              <WhiteCard
+                key={card.id}
+                text={card.text}
+                state={s.placement === 1 ? "winner" : "idle"}
+                order={s.cards.length > 1 ? i + 1 : undefined}
+                animate
+              />
+            ))}
+          </div>
+          {s.cards.some(c => c.authorName) && (
+            <div className="card-credit">
+              {s.cards.filter(c => c.authorName).map(c => t("custom.credit", undefined, { name: c.authorName! })).join(" · ")}
+            </div>
+          )}
           <div style={{ textAlign: "center", marginTop: 8, fontSize: "0.8rem", color: "var(--c-text-muted)" }}>
             {playerNames[s.playerId] ?? "?"}
             {s.playerId === myPlayerId && (
               <span style={{ color: "var(--c-accent)", marginLeft: 4 }}>({t("player.you")})</span>
             )}
+            {votes && (
+              <div className="vote-count">{t("game.votes", undefined, { count: votes[s.anonymousId] ?? 0 })}</div>
+            )}
           </div>
         </div>
       ))}
@@ -8,6 +8,7 @@ import { ScoreBoard } from "../components/ScoreBoard";
 import { BlackCard } from "../components/Card/BlackCard";
 import { WhiteCard } from "../components/Card/WhiteCard";
 import { JudgingPile, RevealPile } from "../components/SubmissionPile";
+import { RANDO_ID, type Card, type PublicPlayer } from "@lib/types";
 
 // ── Fan layout helpers ─────────────────────────────────────────────────────────
 
@@ -37,14 +38,19 @@ interface GamePageProps {
 
 export default function GamePage({ roomId }: GamePageProps) {
   useLang();
-  const { state, connect, disconnect, selectCard, submitSelectedCard, selectWinner, pickBlackCard, addToast, sendEvent } = useGame();
-  const { room, myPlayer, myHand, connectionState, selectedCard, lastRoundWinnerId, blackCardChoices } = state;
+  const { state, connect, disconnect, selectCard, submitSelectedCards, selectWinner, castVote, pickBlackCard, addToast, sendEvent } = useGame();
+  const { room, myPlayer, myHand, isSpectator, connectionState, selectedCardIds, lastRoundWinnerId, blackCardChoices, gameOverReason, gameWinnerIds, ownSubmissions, voteTally, idleDeadline } = state;
+  const ownSubmissionIds = ownSubmissions.map(s => s.id);
 
   const [selectedSubmissionId, setSelectedSubmissionId] = useState<string | null>(null);
+  /** Ranked judging: the Hetman's top picks so far, best first */
+  const [ranking, setRanking] = useState<string[]>([]);
   /** Index of the keyboard-focused card in the fan (-1 = none) */
   const [focusedIdx, setFocusedIdx] = useState(-1);
   /** Selected black card choice during hetmanPicking phase */
   const [selectedBlackCard, setSelectedBlackCard] = useState<string | null>(null);
+  /** Gambling house rule: picking a staked second answer, or already placed one this round */
+  const [gamble, setGamble] = useState<"idle" | "picking" | "placed">("idle");
 
   // ── Connect on mount ────────────────────────────────────────────────────────
   useEffect(() => {
@@ -57,10 +63,19 @@ export default function GamePage({ roomId }: GamePageProps) {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [roomId]);
 
+  // Rematch: host sent the room back to the lobby — everyone follows
+  useEffect(() => {
+    if (room?.phase === "lobby") {
+      window.location.hash = `#/lobby/${roomId}`;
+    }
+  }, [room?.phase, roomId]);
+
   // Reset selected submission when phase changes
   useEffect(() => {
     setSelectedSubmissionId(null);
+    setRanking([]);
     setSelectedBlackCard(null);
+    setGamble("idle");
   }, [room?.phase]);
 
   // Reset fan focus when hand changes or phase changes
@@ -71,21 +86,58 @@ export default function GamePage({ roomId }: GamePageProps) {
   // ── Derived ──────────────────────────────────────────────────────────────────
 
   const isHetman  = !!(room && myPlayer && room.hetmanId === myPlayer.id);
+  /** Democracy mode: the Hetman only picks the prompt, then plays and votes like everyone else. */
+  const democracy = room?.settings.judgingMode === "democracy";
+  const isJudge   = isHetman && !democracy;
+  const ranked    = room?.settings.judgingMode === "ranked";
   const isHost    = !!(room && myPlayer && room.hostId  === myPlayer.id);
   const players   = room?.players ?? [];
   const phase     = room?.phase ?? "lobby";
+  const paused    = room?.paused ?? false;
 
   const iSubmitted = myPlayer
     ? (room?.players.find(p => p.id === myPlayer.id)?.hasSubmitted ?? false)
     : false;
 
-  const canInteractHand = !isHetman && !iSubmitted && phase === "submitting";
+  /** Sudden death: only the tied players answer; everyone else watches. */
+  const tieBreak      = room?.tieBreakPlayerIds ?? null;
+  /** Joined mid-round: watch this one, get dealt in on the next. */
+  const lateJoiners   = room?.lateJoinerIds ?? [];
+  const joinedLate    = !!myPlayer && lateJoiners.includes(myPlayer.id);
+  const sitsOut       = joinedLate || !!(tieBreak && myPlayer && !tieBreak.includes(myPlayer.id));
+
+  const canInteractHand = !isJudge && !sitsOut && phase === "submitting" && (!iSubmitted || gamble === "picking");
+
+  /** "Rebooting the Universe": spend a point on a fresh hand before submitting. */
+  const myPoints  = players.find(p => p.id === myPlayer?.id)?.points ?? 0;
+  const canRedraw = canInteractHand && !iSubmitted && !!room?.settings.allowRedraw && myPoints > 0;
+  /** Gambling: after submitting, stake a point on a second answer. */
+  const canGamble = phase === "submitting" && iSubmitted && gamble === "idle"
+    && !!room?.settings.allowGambling && myPoints > 0;
+
+  /** Democracy mode: voters are everyone with a submission other than their own to pick from. */
+  const votedIds = room?.votedPlayerIds ?? [];
+  const canVote  = phase === "voting" && !!myPlayer && !joinedLate && !votedIds.includes(myPlayer.id)
+    && (room?.submissions.some(s => !ownSubmissionIds.includes(s.id)) ?? false);
+
+  /** Ranked judging: the Hetman places the top three (or every answer, when there are fewer). */
+  const rankSize    = Math.min(3, room?.submissions.length ?? 0);
+  const rankingDone = rankSize > 0 && ranking.length === rankSize;
+
+  /** Blank count of the current black card — how many hand cards make one answer. */
+  const pickCount     = room?.currentBlackCard?.pick ?? 1;
+  const selectionDone = selectedCardIds.length === pickCount;
+
+  /** Score lists include Rando Cardrissian when the house rule is on — named by the server so everyone sees the same label. */
+  const rando        = room?.rando ?? null;
+  const scorePlayers: PublicPlayer[] = rando ? [...players, rando] : players;
 
   const playerNames: Record<string, string> = {};
-  players.forEach(p => { playerNames[p.id] = p.name; });
+  scorePlayers.forEach(p => { playerNames[p.id] = p.name; });
 
-  const submittedCount = room?.players.filter(p => !p.isBot && p.id !== room.hetmanId && p.hasSubmitted).length ?? 0;
-  const totalSubmitters = room?.players.filter(p => !p.isBot && p.id !== room?.hetmanId).length ?? 0;
+  const humanSubmitters = players.filter(p => !p.isBot && !(p.id === room?.hetmanId && !democracy) && (!tieBreak || tieBreak.includes(p.id)) && !lateJoiners.includes(p.id));
+  const submittedCount  = humanSubmitters.filter(p => p.hasSubmitted).length;
+  const totalSubmitters = humanSubmitters.length;
 
   const showReconnecting = connectionState === "reconnecting" || connectionState === "connecting";
 
@@ -101,11 +153,19 @@ export default function GamePage({ roomId }: GamePageProps) {
   // ── Handlers ─────────────────────────────────────────────────────────────────
 
   /** Keyboard handler on the fan container — arrows navigate, Enter activates/submits */
-  /** Navigate to an index and immediately activate that card */
+  /**
+   * Navigate to an index. Single-pick rounds immediately activate that card;
+   * multi-pick rounds only move focus so Space can build the ordered selection.
+   */
   function activateByIndex(idx: number) {
     setFocusedIdx(idx);
     const card = myHand[idx];
-    if (card) selectCard(card);
+    if (card && pickCount === 1) selectCard(card.id);
+  }
+
+  function toggleFocusedCard() {
+    const card = myHand[focusedIdx];
+    if (card) selectCard(card.id, pickCount);
   }
 
   function handleFanKeyDown(e: KeyboardEvent<HTMLDivElement>) {
@@ -125,9 +185,14 @@ export default function GamePage({ roomId }: GamePageProps) {
     } else if (e.key === "End") {
       e.preventDefault();
       activateByIndex(myHand.length - 1);
-    } else if (e.key === "Enter" || e.key === " ") {
+    } else if (e.key === "Enter") {
       e.preventDefault();
-      if (selectedCard) submitSelectedCard();
+      if (selectionDone) submitSelection();
+      else toggleFocusedCard();
+    } else if (e.key === " ") {
+      e.preventDefault();
+      if (pickCount > 1) toggleFocusedCard();
+      else if (selectionDone) submitSelection();
     } else if (e.key === "Escape") {
       e.preventDefault();
       selectCard(null);
@@ -135,29 +200,57 @@ export default function GamePage({ roomId }: GamePageProps) {
     }
   }
 
-  function handleCardClick(card: string) {
+  function handleCardClick(card: Card) {
     if (!canInteractHand) return;
-    if (selectedCard === card) {
-      selectCard(null);
-      setFocusedIdx(-1);
-    } else {
-      const idx = myHand.indexOf(card);
-      selectCard(card);
-      setFocusedIdx(idx);
-    }
+    const wasSelected = selectedCardIds.includes(card.id);
+    selectCard(card.id, pickCount);
+    setFocusedIdx(wasSelected ? -1 : myHand.indexOf(card));
+  }
+
+  /** Submit the selection — as a staked second answer when gambling. */
+  function submitSelection() {
+    const wager = gamble === "picking";
+    submitSelectedCards(wager);
+    if (wager) setGamble("placed");
   }
 
   function handleSubmit() {
-    if (!selectedCard) return;
-    submitSelectedCard();
+    if (!selectionDone) return;
+    submitSelection();
+  }
+
+  /** Take an answer back before judging — the cards return to the hand. */
+  function handleRetract(submissionId: string) {
+    selectCard(null);
+    sendEvent("retract_submission", { submissionId });
+    // Taking back the staked answer frees the gamble for another try
+    if (ownSubmissions.length > 1) setGamble("idle");
+  }
+
+  function handleCastVote() {
+    if (!selectedSubmissionId || ownSubmissionIds.includes(selectedSubmissionId)) return;
+    castVote(selectedSubmissionId);
   }
 
   function handlePickWinner() {
+    if (ranked) {
+      if (!rankingDone) return;
+      selectWinner(ranking);
+      setRanking([]);
+      return;
+    }
     if (!selectedSubmissionId) return;
-    selectWinner(selectedSubmissionId);
+    selectWinner([selectedSubmissionId]);
     setSelectedSubmissionId(null);
   }
 
+  /** Ranked judging: clicking an answer gives it the next free place; clicking again takes it back. */
+  function toggleRanked(id: string) {
+    setRanking(prev => prev.includes(id)
+      ? prev.filter(r => r !== id)
+      : prev.length < rankSize ? [...prev, id] : prev);
+  }
+
   function handleLeave() {
     disconnect();
     window.location.hash = "#/";
@@ -169,9 +262,19 @@ export default function GamePage({ roomId }: GamePageProps) {
     setSelectedBlackCard(null);
   }
 
+  function handleRerollBlackCards() {
+    setSelectedBlackCard(null);
+    sendEvent("reroll_black_cards");
+  }
+
+  function handleTogglePause() {
+    sendEvent(paused ? "resume_game" : "pause_game");
+  }
+
   function handlePlayAgain() {
     if (isHost) {
-      // window.location.hash = `#/lobby/${roomId}`;
+      // Navigation happens for everyone once the room_state with phase "lobby" arrives
+      sendEvent("restart_game");
     } else {
       window.location.hash = "#/";
     }
@@ -180,7 +283,12 @@ export default function GamePage({ roomId }: GamePageProps) {
   // ── GAME OVER ────────────────────────────────────────────────────────────────
 
   if (phase === "gameOver") {
-    const winner = players.reduce((a, b) => a.points >= b.points ? a : b, players[0] ?? { name: "?", points: 0, id: "", isBot: false, isConnected: true, isHost: false, hasSubmitted: false });
+    // Co-winners come from game_over; after a reload fall back to everyone on the top score
+    const topScore = Math.max(0, ...scorePlayers.map(p => p.points));
+    const winners  = gameWinnerIds.length > 0
+      ? scorePlayers.filter(p => gameWinnerIds.includes(p.id))
+      : scorePlayers.filter(p => p.points === topScore);
+    const randoWon = winners.some(p => p.id === RANDO_ID);
 
     return (
       <>
@@ -189,22 +297,35 @@ export default function GamePage({ roomId }: GamePageProps) {
           <h1 style={{ fontSize: "clamp(2rem,5vw,3rem)", fontWeight: 900 }}>
             {t("game.game_over")}
           </h1>
-          <p className="text-muted">{t("game.winner_overall")}</p>
+          {gameOverReason && (
+            <p className="text-muted text-sm">{t(`game.over.${gameOverReason}`)}</p>
+          )}
+          <p className="text-muted">{t(winners.length > 1 ? "game.winners_tied" : "game.winner_overall")}</p>
           <div style={{ background: "var(--c-bg-surface)", border: "2px solid var(--c-accent)", borderRadius: "var(--radius-md)", padding: "24px 40px", textAlign: "center" }}>
-            <div style={{ fontSize: "2rem", fontWeight: 900 }}>{winner.name}</div>
+            <div style={{ fontSize: "2rem", fontWeight: 900 }}>{winners.map(w => w.name).join(" · ")}</div>
             <div className="text-accent" style={{ fontSize: "1.1rem", marginTop: 4 }}>
-              {winner.points} {t("game.points")}
+              {winners[0]?.points ?? 0} {t("game.points")}
             </div>
           </div>
 
-          <ScoreBoard players={players} myPlayerId={myPlayer?.id} title={t("game.final_scores")} />
+          {/* House rule: losing to a random card is a collective disgrace */}
+          {randoWon && (
+            <p className="rando-shame anim-pulse">{t("game.rando_shame")}</p>
+          )}
+
+          <ScoreBoard players={scorePlayers} myPlayerId={myPlayer?.id} title={t("game.final_scores")} />
 
           <div style={{ display: "flex", gap: 12, marginTop: 16 }}>
-            {/* <button className="btn btn-primary btn-lg" onClick={handlePlayAgain}>
-              {isHost ? t("game.play_again") : t("misc.back")}
-            </button> */}
+            {isHost && (
+              <button className="btn btn-primary btn-lg" onClick={handlePlayAgain}>
+                {t("game.play_again")}
+              </button>
+            )}
             <button className="btn btn-ghost" onClick={handleLeave}>{t("game.leave")}</button>
           </div>
+          {!isHost && (
+            <p className="text-muted text-sm anim-pulse">{t("game.waiting_rematch")}</p>
+          )}
         </div>
       </>
     );
@@ -216,6 +337,27 @@ export default function GamePage({ roomId }: GamePageProps) {
     <>
       <ToastContainer />
 
+      {/* Host paused the game — the table is frozen until they resume */}
+      {paused && !showReconnecting && (
+        <div className="conn-overlay">
+          <div className="conn-overlay-inner">
+            <p style={{ fontWeight: 700, fontSize: "1.2rem" }}>{t("game.paused")}</p>
+            {isHost ? (
+              <button className="btn btn-primary" style={{ marginTop: 16 }} onClick={handleTogglePause}>
+                {t("game.resume")}
+              </button>
+            ) : (
+              <p className="text-muted text-sm" style={{ marginTop: 8 }}>{t("game.paused_by_host")}</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Nobody has done anything for a while — one tap keeps the room alive (shown above the pause overlay) */}
+      {idleDeadline && !isSpectator && !showReconnecting && (
+        <IdlePrompt deadline={idleDeadline} onHere={() => sendEvent("ping")} />
+      )}
+
       {/* Reconnecting overlay */}
       {showReconnecting && (
         <div className="conn-overlay">
@@ -233,21 +375,52 @@ export default function GamePage({ roomId }: GamePageProps) {
             <div className="game-header-info">
               <span className="game-header-title">{t("app.title")}</span>
               <span className="game-round-badge">
-                {t("game.round")} {room?.currentRound ?? 1} {t("game.of")} {room?.settings.maxRounds ?? 10}
+                {tieBreak ? t("game.sudden_death") : (
+                  <>
+                    {t("game.round")} {room?.currentRound ?? 1}
+                    {room?.settings.maxRounds != null && <> {t("game.of")} {room.settings.maxRounds}</>}
+                    {room?.settings.pointsToWin != null && <> · {t("game.points_to_win", undefined, { n: room.settings.pointsToWin })}</>}
+                  </>
+                )}
+                {room?.finishAfterRound && <> · {t("game.last_round")}</>}
               </span>
             </div>
 
             <div className="game-header-center">
-              <PhaseLabel phase={phase} isHetman={isHetman} />
+              <PhaseLabel phase={phase} isHetman={isHetman} isJudge={isJudge} />
               {room?.submissionDeadline && phase === "submitting" && (
                 <HeaderCountdown
                   deadline={room.submissionDeadline}
+                  paused={paused}
                   totalSec={room.settings.submissionTimeLimitSec ?? 60}
                 />
               )}
+              {room?.hetmanDeadline && (phase === "hetmanPicking" || phase === "judging" || phase === "voting") && (
+                <HeaderCountdown
+                  deadline={room.hetmanDeadline}
+                  paused={paused}
+                  totalSec={(phase === "hetmanPicking" ? room.settings.hetmanPickTimeLimitSec : room.settings.judgingTimeLimitSec) ?? 60}
+                />
+              )}
             </div>
 
             <div className="game-header-right">
+              {room?.sessionDeadline && (
+                <SessionTimer
+                  deadline={room.sessionDeadline}
+                  paused={paused}
+                  isHost={isHost}
+                  canExtend={!room.sessionExtended}
+                  extendMin={room.settings.sessionExtensionMin}
+                  onExtend={() => sendEvent("extend_session")}
+                  onFinish={() => sendEvent("finish_after_round")}
+                />
+              )}
+              {isHost && !paused && (
+                <button className="btn btn-ghost btn-sm" onClick={handleTogglePause}>
+                  {t("game.pause")}
+                </button>
+              )}
               <button className="btn btn-ghost btn-sm text-muted" onClick={handleLeave} aria-label={t("game.leave")}>
                 {t("game.leave")}
               </button>
@@ -268,7 +441,7 @@ export default function GamePage({ roomId }: GamePageProps) {
             )}
 
             {/* Hetman picking black card */}
-            {phase === "hetmanPicking" && room && myPlayer && (
+            {phase === "hetmanPicking" && room && (myPlayer || isSpectator) && (
               <div style={{ width: "100%", textAlign: "center" }}>
                 {isHetman ? (
                   <>
@@ -278,11 +451,11 @@ export default function GamePage({ roomId }: GamePageProps) {
                     <div className="black-card-choices">
                       {blackCardChoices.map((card) => (
                         <div
-                          key={card}
-                          className={`black-card-choice${selectedBlackCard === card ? " black-card-choice--selected" : ""}`}
-                          onClick={() => setSelectedBlackCard(selectedBlackCard === card ? null : card)}
+                          key={card.id}
+                          className={`black-card-choice${selectedBlackCard === card.id ? " black-card-choice--selected" : ""}`}
+                          onClick={() => setSelectedBlackCard(selectedBlackCard === card.id ? null : card.id)}
                         >
-                          <BlackCard text={card} animate />
+                          <BlackCard text={card.text} pick={card.pick} animate />
                         </div>
                       ))}
                     </div>
@@ -293,6 +466,13 @@ export default function GamePage({ roomId }: GamePageProps) {
                         </button>
                       </div>
                     )}
+                    {room.blackCardRerollsLeft > 0 && (
+                      <div style={{ marginTop: 12 }}>
+                        <button className="btn btn-ghost btn-sm" onClick={handleRerollBlackCards}>
+                          {t("game.reroll_black_cards", undefined, { n: String(room.blackCardRerollsLeft) })}
+                        </button>
+                      </div>
+                    )}
                   </>
                 ) : (
                   <div className="center-page" style={{ minHeight: "unset" }}>
@@ -306,12 +486,19 @@ export default function GamePage({ roomId }: GamePageProps) {
             {/* Black card + submit action */}
             {room?.currentBlackCard && (
               <div className="game-table-center">
-                <BlackCard text={room.currentBlackCard} animate />
+                <BlackCard text={room.currentBlackCard.text} pick={pickCount} animate />
 
-                {/* Submit button appears below black card when a card is active */}
-                {canInteractHand && selectedCard && (
+                {/* Multi-pick: remind how many cards are still missing */}
+                {canInteractHand && selectedCardIds.length > 0 && !selectionDone && (
+                  <p className="text-muted text-sm">
+                    {t("game.pick_more", undefined, { n: pickCount - selectedCardIds.length })}
+                  </p>
+                )}
+
+                {/* Submit button appears below black card once the selection is complete */}
+                {canInteractHand && selectedCardIds.length > 0 && (
                   <div className="game-submit-action">
-                    <button className="btn btn-primary btn-lg" onClick={handleSubmit}>
+                    <button className="btn btn-primary btn-lg" onClick={handleSubmit} disabled={!selectionDone}>
                       {t("game.submit")}
                     </button>
                     <button className="btn btn-ghost btn-sm" onClick={() => selectCard(null)}>
@@ -325,8 +512,12 @@ export default function GamePage({ roomId }: GamePageProps) {
             {/* Submitting status */}
             {phase === "submitting" && (
               <div style={{ textAlign: "center" }}>
-                {isHetman ? (
+                {isSpectator ? (
+                  <p className="text-muted">{t("game.spectating")}</p>
+                ) : isJudge ? (
                   <p className="text-muted">{t("game.you_are_hetman")}</p>
+                ) : sitsOut ? (
+                  <p className="text-muted">{joinedLate ? t("game.late_join_watch") : t("game.sudden_death_watch")}</p>
                 ) : iSubmitted ? (
                   <p className="text-muted anim-pulse">{t("game.you_submitted")}</p>
                 ) : (
@@ -335,9 +526,56 @@ export default function GamePage({ roomId }: GamePageProps) {
                 <p className="text-muted text-sm" style={{ marginTop: 4 }}>
                   {t("game.submitted_count", undefined, { count: String(submittedCount), total: String(totalSubmitters) })}
                 </p>
+                {ownSubmissions.length > 0 && (
+                  <div className="own-submissions">
+                    {ownSubmissions.map((s, i) => (
+                      <div key={s.id} className="submission-card-wrapper">
+                        <div className="submission-group" aria-label={t("game.your_answer")}>
+                          {s.cards.map((card, j) => (
+                            <WhiteCard
+                              key={card.id}
+                              text={card.text}
+                              state="submitted"
+                              order={s.cards.length > 1 ? j + 1 : undefined}
+                            />
+                          ))}
+                        </div>
+                        {/* Only the latest answer can be taken back — a gambler retracts the staked one first */}
+                        {i === ownSubmissions.length - 1 && (
+                          <button className="btn btn-ghost btn-sm" style={{ marginTop: 4 }} onClick={() => handleRetract(s.id)}>
+                            {t("game.retract")}
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {canGamble && (
+                  <button className="btn btn-ghost btn-sm" style={{ marginTop: 8 }} onClick={() => setGamble("picking")}>
+                    {t("game.gamble")}
+                  </button>
+                )}
+                {gamble === "picking" && iSubmitted && (
+                  <p className="text-warning text-sm" style={{ marginTop: 8 }}>
+                    {t("game.gamble_pick")}{" "}
+                    <button className="btn btn-ghost btn-sm" onClick={() => { selectCard(null); setGamble("idle"); }}>
+                      {t("game.cancel")}
+                    </button>
+                  </p>
+                )}
+                {canRedraw && (
+                  <button
+                    className="btn btn-ghost btn-sm"
+                    style={{ marginTop: 8 }}
+                    onClick={() => { selectCard(null); sendEvent("redraw_hand"); }}
+                  >
+                    {t("game.redraw")}
+                  </button>
+                )}
                 {room?.submissionDeadline && (
                   <CountdownTimer
                     deadline={room.submissionDeadline}
+                    paused={paused}
                     totalSec={room.settings.submissionTimeLimitSec ?? 60}
                   />
                 )}
@@ -345,11 +583,11 @@ export default function GamePage({ roomId }: GamePageProps) {
             )}
 
             {/* Judging phase */}
-            {phase === "judging" && room && myPlayer && (
+            {phase === "judging" && room && (myPlayer || isSpectator) && (
               <div style={{ width: "100%" }}>
                 {isHetman ? (
                   <p className="text-accent text-bold text-center" style={{ marginBottom: 12 }}>
-                    {t("game.pick_winner")}
+                    {ranked ? t("game.rank_prompt", undefined, { n: rankSize }) : t("game.pick_winner")}
                   </p>
                 ) : (
                   <p className="text-muted text-center">{t("game.waiting_hetman")}</p>
@@ -357,12 +595,13 @@ export default function GamePage({ roomId }: GamePageProps) {
 
                 <JudgingPile
                   submissions={room.submissions}
-                  onSelect={id => setSelectedSubmissionId(id)}
+                  onSelect={id => ranked ? toggleRanked(id) : setSelectedSubmissionId(id)}
                   isHetman={isHetman}
                   selectedId={selectedSubmissionId ?? undefined}
+                  ranking={ranking}
                 />
 
-                {isHetman && selectedSubmissionId && (
+                {isHetman && (ranked ? rankingDone : selectedSubmissionId) && (
                   <div style={{ textAlign: "center", marginTop: 16 }}>
                     <button className="btn btn-primary btn-lg" onClick={handlePickWinner}>
                       {t("game.pick_winner")}
@@ -372,18 +611,48 @@ export default function GamePage({ roomId }: GamePageProps) {
               </div>
             )}
 
+            {/* Voting phase (democracy mode) */}
+            {phase === "voting" && room && (myPlayer || isSpectator) && (
+              <div style={{ width: "100%" }}>
+                <p className={`text-center ${canVote ? "text-accent text-bold" : "text-muted"}`} style={{ marginBottom: 12 }}>
+                  {canVote ? t("game.vote_prompt") : isSpectator ? t("game.spectating") : t("game.vote_cast")}
+                </p>
+
+                <JudgingPile
+                  submissions={room.submissions}
+                  onSelect={id => { if (canVote && !ownSubmissionIds.includes(id)) setSelectedSubmissionId(id); }}
+                  isHetman
+                  selectedId={selectedSubmissionId ?? undefined}
+                  ownIds={ownSubmissionIds}
+                />
+
+                <p className="text-muted text-sm text-center" style={{ marginTop: 8 }}>
+                  {t("game.voted_count", undefined, { count: votedIds.length, total: players.length - lateJoiners.length })}
+                </p>
+
+                {canVote && selectedSubmissionId && (
+                  <div style={{ textAlign: "center", marginTop: 16 }}>
+                    <button className="btn btn-primary btn-lg" onClick={handleCastVote}>
+                      {t("game.vote")}
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Reveal phase */}
-            {(phase === "reveal" || phase === "roundEnd") && room && myPlayer && (
+            {(phase === "reveal" || phase === "roundEnd") && room && (myPlayer || isSpectator) && (
               <div style={{ width: "100%", textAlign: "center" }}>
                 <p className="phase-title">{t("game.winner_round")}</p>
                 <RevealPile
                   revealed={room.revealedSubmissions}
                   playerNames={playerNames}
-                  myPlayerId={myPlayer.id}
+                  myPlayerId={myPlayer?.id ?? ""}
+                  votes={voteTally}
                 />
                 {phase === "roundEnd" && (
                   <div style={{ marginTop: 24 }}>
-                    <ScoreBoard players={players} myPlayerId={myPlayer.id} title={t("game.scores")} />
+                    <ScoreBoard players={scorePlayers} myPlayerId={myPlayer?.id} title={t("game.scores")} />
                   </div>
                 )}
               </div>
@@ -402,11 +671,16 @@ export default function GamePage({ roomId }: GamePageProps) {
               isHost={isHost}
               lastRoundWinnerId={lastRoundWinnerId}
             />
+            {!!room?.spectatorCount && (
+              <p className="text-muted text-sm" style={{ marginTop: 8 }}>
+                {t("lobby.spectators", undefined, { n: String(room.spectatorCount) })}
+              </p>
+            )}
           </aside>
         </div>
 
-        {/* ── Fan hand area ── */}
-        {!isHetman && (
+        {/* ── Fan hand area (spectators hold no cards) ── */}
+        {!isJudge && !isSpectator && (
           <div className="game-hand-area">
             {myHand.length === 0 ? (
               <div style={{ display: "flex", alignItems: "center", justifyContent: "center", height: "100%" }}>
@@ -428,7 +702,8 @@ export default function GamePage({ roomId }: GamePageProps) {
                 >
                   {myHand.map((card, i) => {
                   const { rotate, translateX, translateY } = fanStyles[i] ?? { rotate: "0deg", translateX: "-50%", translateY: "0px" };
-                  const isActive  = selectedCard === card;
+                  const selIdx    = selectedCardIds.indexOf(card.id);
+                  const isActive  = selIdx !== -1;
                   const isFocused = focusedIdx === i;
 
                   const wrapperClass = [
@@ -445,21 +720,22 @@ export default function GamePage({ roomId }: GamePageProps) {
 
                   return (
                     <div
-                      key={`${card}-${i}`}
+                      key={card.id}
                       className={wrapperClass}
                       style={{
                         transform: `translateX(${translateX}) translateY(${isActive ? '-60px' : translateY}) rotate(${rotate})`,
                         zIndex: zIdx,
                       }}
                       onClick={() => handleCardClick(card)}
-                      aria-label={card}
+                      aria-label={card.text}
                     >
                       <WhiteCard
-                        text={card}
+                        text={card.text}
                         state={
-                          iSubmitted  ? "submitted" :
+                          iSubmitted && !canInteractHand ? "submitted" :
                           isActive    ? "selected"  : "idle"
                         }
+                        order={isActive && pickCount > 1 ? selIdx + 1 : undefined}
                         className="fan-inner-card"
                         animate
                       />
@@ -481,13 +757,13 @@ export default function GamePage({ roomId }: GamePageProps) {
 
 // ── Phase label helper ─────────────────────────────────────────────────────────
 
-function PhaseLabel({ phase, isHetman }: { phase: string; isHetman: boolean }) {
+function PhaseLabel({ phase, isHetman, isJudge }: { phase: string; isHetman: boolean; isJudge: boolean }) {
   useLang();
   const key = `phase.${phase}` as Parameters<typeof t>[0];
   if (phase === "hetmanPicking" && isHetman) {
     return <span className="text-accent text-sm">{t("game.pick_black_card")}</span>;
   }
-  if (phase === "submitting" && isHetman) {
+  if (phase === "submitting" && isJudge) {
     return <span className="text-warning text-sm">{t("game.you_are_hetman")}</span>;
   }
   return <span className="text-muted text-sm">{t(key)}</span>;
@@ -495,7 +771,8 @@ function PhaseLabel({ phase, isHetman }: { phase: string; isHetman: boolean }) {
 
 // ── Countdown timer ────────────────────────────────────────────────────────────
 
-function useSecondsLeft(deadline: number): number {
+/** Seconds until `deadline`; holds still while the game is paused (the server shifts the deadline on resume). */
+function useSecondsLeft(deadline: number, paused: boolean): number {
   const getLeft = useCallback(
     () => Math.max(0, Math.round((deadline - Date.now()) / 1_000)),
     [deadline],
@@ -503,6 +780,7 @@ function useSecondsLeft(deadline: number): number {
   const [secondsLeft, setSecondsLeft] = useState(getLeft);
 
   useEffect(() => {
+    if (paused) return;
     setSecondsLeft(getLeft());
     const id = setInterval(() => {
       const left = getLeft();
@@ -510,14 +788,14 @@ function useSecondsLeft(deadline: number): number {
       if (left === 0) clearInterval(id);
     }, 500);
     return () => clearInterval(id);
-  }, [deadline, getLeft]);
+  }, [deadline, getLeft, paused]);
 
   return secondsLeft;
 }
 
-function CountdownTimer({ deadline, totalSec }: { deadline: number; totalSec: number }) {
+function CountdownTimer({ deadline, totalSec, paused }: { deadline: number; totalSec: number; paused: boolean }) {
   useLang();
-  const secondsLeft = useSecondsLeft(deadline);
+  const secondsLeft = useSecondsLeft(deadline, paused);
   const fraction    = totalSec > 0 ? secondsLeft / totalSec : 0;
   const isLow       = fraction <= 0.3;
   const color       = isLow ? "var(--c-error, #e05252)" : fraction <= 0.6 ? "var(--c-warning, #f0a500)" : "var(--c-accent)";
@@ -557,10 +835,73 @@ function CountdownTimer({ deadline, totalSec }: { deadline: number; totalSec: nu
   );
 }
 
+/** "Are you still there?" — the room ends for inactivity when this countdown runs out. */
+function IdlePrompt({ deadline, onHere }: { deadline: number; onHere: () => void }) {
+  useLang();
+  const secondsLeft = useSecondsLeft(deadline, false);
+
+  return (
+    <div className="conn-overlay" role="alertdialog" aria-labelledby="idle-prompt-title">
+      <div className="conn-overlay-inner">
+        <p id="idle-prompt-title" style={{ fontWeight: 700, fontSize: "1.2rem" }}>{t("game.idle_title")}</p>
+        <p className="text-muted text-sm" style={{ marginTop: 8 }}>
+          {t("game.idle_body", undefined, { n: String(secondsLeft) })}
+        </p>
+        <button className="btn btn-primary" style={{ marginTop: 16 }} onClick={onHere} autoFocus>
+          {t("game.idle_here")}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/** Host controls appear once this little time is left in the session. */
+const SESSION_CONTROLS_SEC = 10 * 60;
+
+/**
+ * Session limit countdown in the header. In the last minutes the host can extend
+ * it once or let the game end after the current round instead of a hard cut.
+ */
+function SessionTimer({ deadline, paused, isHost, canExtend, extendMin, onExtend, onFinish }: {
+  deadline: number;
+  paused: boolean;
+  isHost: boolean;
+  canExtend: boolean;
+  extendMin: number;
+  onExtend: () => void;
+  onFinish: () => void;
+}) {
+  useLang();
+  const secondsLeft = useSecondsLeft(deadline, paused);
+  const ending      = secondsLeft <= SESSION_CONTROLS_SEC;
+  const minutes     = Math.floor(secondsLeft / 60);
+  const seconds     = String(secondsLeft % 60).padStart(2, "0");
+
+  return (
+    <div className="session-timer">
+      <span className={`session-timer-clock${ending ? " session-timer-clock--ending" : ""}`}>
+        ⏱ {minutes}:{seconds}
+      </span>
+      {isHost && ending && (
+        <>
+          {canExtend && (
+            <button className="btn btn-ghost btn-sm" onClick={onExtend}>
+              {t("game.extend_session", undefined, { n: String(extendMin) })}
+            </button>
+          )}
+          <button className="btn btn-ghost btn-sm" onClick={onFinish}>
+            {t("game.finish_after_round")}
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
+
 /** Compact timer pill shown in the game header during submission phase. */
-function HeaderCountdown({ deadline, totalSec }: { deadline: number; totalSec: number }) {
+function HeaderCountdown({ deadline, totalSec, paused }: { deadline: number; totalSec: number; paused: boolean }) {
   useLang();
-  const secondsLeft = useSecondsLeft(deadline);
+  const secondsLeft = useSecondsLeft(deadline, paused);
   const fraction    = totalSec > 0 ? secondsLeft / totalSec : 0;
   const isLow       = fraction <= 0.3;
   const color       = isLow ? "var(--c-error, #e05252)" : fraction <= 0.6 ? "var(--c-warning, #f0a500)" : "var(--c-accent)";
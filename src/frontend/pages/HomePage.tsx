@@ -1,5 +1,6 @@
 import { useState, type FormEvent } from "react";
 import { t, setLang, getLang } from "@lib/i18n";
+import { getLanguagePacks } from "@lib/cards";
 import { useLang } from "../hooks/useLang";
 import { saveSession } from "../services/gameStore";
 import type { GameSettings } from "@lib/types";
@@ -9,10 +10,35 @@ import GameSettingsPanel from "../components/GameSettings";
 
 const DEFAULT_SETTINGS: GameSettings = {
   maxRounds:              10,
+  pointsToWin:            null,
+  suddenDeath:            false,
+  judgingMode:            "hetman",
+  rando:                  false,
+  allowRedraw:            false,
+  allowGambling:          false,
+  blackCardRerolls:       0,
+  blackCardRerollScope:   "round",
+  allowLateJoin:          false,
+  lateJoinCatchUp:        false,
   submissionTimeLimitSec: null,
+  hetmanPickTimeLimitSec: null,
+  judgingTimeLimitSec:    null,
   allowCustomCards:       false,
-  rotateHetman:           true,
+  customCardsPerPlayer:   3,
+  hetmanRotation:         "sequential",
+  cardLanguage:           "uk",
+  packs:                  getLanguagePacks("uk"),
   password:               null,
+  handSize:               10,
+  minPlayers:             3,
+  maxPlayers:             10,
+  blackCardChoices:       4,
+  revealDelaySec:         5,
+  advanceDelaySec:        3,
+  inactivityTimeoutMin:   15,
+  sessionLimitMin:        60,
+  sessionExtensionMin:    15,
+  reconnectGraceMin:      5,
 };
 
 // ── HomePage ──────────────────────────────────────────────────────────────────
@@ -23,7 +49,12 @@ export default function HomePage() {
   // Create form state
   const [createName, setCreateName]     = useState("");
   const [showSettings, setShowSettings] = useState(false);
-  const [settings, setSettings]         = useState<GameSettings>(DEFAULT_SETTINGS);
+  // Card language (and its packs) follows the UI language by default; the host can change it in settings
+  const [settings, setSettings]         = useState<GameSettings>(() => ({
+    ...DEFAULT_SETTINGS,
+    cardLanguage: getLang(),
+    packs:        getLanguagePacks(getLang()),
+  }));
   const [createError, setCreateError]   = useState("");
   const [creating, setCreating]         = useState(false);
 
@@ -31,6 +62,7 @@ export default function HomePage() {
   const [joinName, setJoinName]     = useState("");
   const [joinCode, setJoinCode]     = useState("");
   const [joinPass, setJoinPass]     = useState("");
+  const [joinSpectator, setJoinSpectator] = useState(false);
   const [joinError, setJoinError]   = useState("");
   const [joining, setJoining]       = useState(false);
 
@@ -91,8 +123,9 @@ export default function HomePage() {
 
     setJoining(true);
     try {
-      const body: Record<string, string> = { playerName: joinName.trim() };
+      const body: Record<string, string | boolean> = { playerName: joinName.trim() };
       if (joinPass.trim()) body["password"] = joinPass.trim();
+      if (joinSpectator) body["spectator"] = true;
 
       const res = await fetch(`/api/rooms/${code}/join`, {
         method: "POST",
@@ -239,6 +272,15 @@ export default function HomePage() {
             />
           </div>
 
+          <label className="checkbox-field">
+            <input
+              type="checkbox"
+              checked={joinSpectator}
+              onChange={e => setJoinSpectator(e.target.checked)}
+            />
+            {t("home.spectate")}
+          </label>
+
           {joinError && <p className="field-error">{joinError}</p>}
 
           <button type="submit" className="btn btn-primary btn-full" disabled={joining}>
@@ -5,6 +5,7 @@ import { useGame, loadSession, saveSession } from "../services/gameStore";
 import { ToastContainer } from "../components/Toast";
 import { PlayerList } from "../components/PlayerList";
 import GameSettingsPanel from "../components/GameSettings";
+import { CustomCardsPanel } from "../components/CustomCardsPanel";
 import type { GameSettings } from "@lib/types";
 
 interface LobbyPageProps {
@@ -14,7 +15,7 @@ interface LobbyPageProps {
 export default function LobbyPage({ roomId }: LobbyPageProps) {
   useLang();
   const { state, connect, disconnect, sendEvent, addToast } = useGame();
-  const { room, myPlayer, connectionState } = state;
+  const { room, myPlayer, isSpectator, connectionState } = state;
 
   const [copied, setCopied]           = useState(false);
   const [editSettings, setEditSettings] = useState(false);
@@ -39,12 +40,12 @@ export default function LobbyPage({ roomId }: LobbyPageProps) {
 
   // ── Listen to server events for toasts ─────────────────────────────────────
   useEffect(() => {
-    if (!room || !myPlayer) return;
+    if (!room || (!myPlayer && !isSpectator)) return;
     // Current room is in game phase → redirect
     if (room.phase !== "lobby") {
       window.location.hash = `#/game/${roomId}`;
     }
-  }, [room, myPlayer, roomId]);
+  }, [room, myPlayer, isSpectator, roomId]);
 
   // ── Helpers ─────────────────────────────────────────────────────────────────
 
@@ -60,8 +61,8 @@ export default function LobbyPage({ roomId }: LobbyPageProps) {
   function handleStartGame() {
     setStartError("");
     if (!room) return;
-    if (room.players.length < 3) {
-      setStartError(t("lobby.min_players"));
+    if (room.players.length < room.settings.minPlayers) {
+      setStartError(t("lobby.min_players", undefined, { n: String(room.settings.minPlayers) }));
       return;
     }
     sendEvent("start_game");
@@ -90,7 +91,7 @@ export default function LobbyPage({ roomId }: LobbyPageProps) {
   // ── Render ───────────────────────────────────────────────────────────────────
 
   const isHost = !!(room && myPlayer && room.hostId === myPlayer.id);
-  const canStart = !!(room && room.players.length >= 3);
+  const canStart = !!(room && room.players.length >= room.settings.minPlayers);
 
   const showReconnecting = connectionState === "reconnecting" || connectionState === "connecting";
 
@@ -141,17 +142,24 @@ export default function LobbyPage({ roomId }: LobbyPageProps) {
               ) : (
                 <div className="anim-pulse text-muted text-sm">{t("misc.loading")}</div>
               )}
+              {!!room?.spectatorCount && (
+                <p className="text-muted text-sm" style={{ marginTop: 8 }}>
+                  {t("lobby.spectators", undefined, { n: String(room.spectatorCount) })}
+                </p>
+              )}
             </div>
 
             {/* Host actions */}
             {isHost && (
               <div className="lobby-section">
                 <div className="lobby-actions">
-                  {room && room.players.length < 10 && (
+                  {room && (room.players.length < room.settings.maxPlayers ? (
                     <button className="btn btn-secondary" onClick={handleAddBot}>
                       + {t("lobby.add_bot")}
                     </button>
-                  )}
+                  ) : (
+                    <p className="text-muted text-sm">{t("lobby.max_players", undefined, { n: String(room.settings.maxPlayers) })}</p>
+                  ))}
                   {startError && <p className="field-error">{startError}</p>}
                   <button
                     className="btn btn-primary btn-lg"
@@ -161,7 +169,7 @@ export default function LobbyPage({ roomId }: LobbyPageProps) {
                     {t("lobby.start_game")}
                   </button>
                   {!canStart && (
-                    <p className="text-muted text-sm">{t("lobby.min_players")}</p>
+                    <p className="text-muted text-sm">{t("lobby.min_players", undefined, { n: String(room?.settings.minPlayers ?? 3) })}</p>
                   )}
                 </div>
               </div>
@@ -169,7 +177,7 @@ export default function LobbyPage({ roomId }: LobbyPageProps) {
 
             {!isHost && (
               <div className="lobby-section">
-                <p className="text-muted text-sm anim-pulse">{t("lobby.waiting")}</p>
+                <p className="text-muted text-sm anim-pulse">{t(isSpectator ? "lobby.spectating" : "lobby.waiting")}</p>
               </div>
             )}
           </div>
@@ -214,6 +222,19 @@ export default function LobbyPage({ roomId }: LobbyPageProps) {
                 </>
               )}
             </div>
+
+            {/* Custom cards */}
+            {room?.settings.allowCustomCards && myPlayer && (
+              <div className="lobby-section">
+                <CustomCardsPanel
+                  whiteCards={room.customWhiteCards}
+                  blackCards={room.customBlackCards}
+                  myPlayerId={myPlayer.id}
+                  isHost={isHost}
+                  quota={room.settings.customCardsPerPlayer}
+                />
+              </div>
+            )}
           </div>
         </div>
 
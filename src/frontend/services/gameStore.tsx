@@ -21,6 +21,8 @@ import type {
   Score,
   PublicPlayer,
   GameSettings,
+  Card,
+  GameOverReason,
 } from "@lib/types";
 
 // ── Storage keys ───────────────────────────────────────────────────────────────
@@ -66,27 +68,45 @@ function toastId(): string {
 export interface GameState {
   room:               PublicRoom | null;
   myPlayer:           Omit<Player, "token"> | null;
-  myHand:             string[];
+  myHand:             Card[];
+  /** Watching the room without a seat — no hand, no actions. */
+  isSpectator:        boolean;
   connectionState:    ConnectionState;
   toasts:             Toast[];
-  selectedCard:       string | null;
+  /** Ids of cards picked from the hand, in blank order (Pick 2 / Pick 3 take several). */
+  selectedCardIds:    string[];
   /** playerId of whoever won the most recent round — cleared at start of next round. */
   lastRoundWinnerId:  string | null;
   /** Black card choices offered to the Hetman during hetmanPicking phase. */
-  blackCardChoices:   string[];
+  blackCardChoices:   Card[];
+  /** Which condition ended the game — set on game_over, cleared on rematch. */
+  gameOverReason:     GameOverReason | null;
+  /** Everyone sharing the top score at game over (several on a tie). */
+  gameWinnerIds:      string[];
+  /** My own answers this round by anonymous id — retractable while submitting, not votable in democracy mode. */
+  ownSubmissions:     AnonymousSubmission[];
+  /** Democracy mode: vote count per submission from the last winner_selected. */
+  voteTally:          Record<string, number> | null;
+  /** Unix ms when the room closes for inactivity — set by a warning, cleared once anyone acts. */
+  idleDeadline:       number | null;
 }
 
 type Action =
-  | { type: "SET_STATE"; room: PublicRoom; myPlayer: Omit<Player, "token">; myHand: string[] }
-  | { type: "CARDS_DEALT"; hand: string[] }
+  | { type: "SET_STATE"; room: PublicRoom; myPlayer: Omit<Player, "token"> | null; myHand: Card[]; isSpectator: boolean }
+  | { type: "CARDS_DEALT"; hand: Card[] }
   | { type: "UPDATE_ROOM"; room: PublicRoom }
-  | { type: "ROUND_START"; blackCard: string | null; hetmanId: string; round: number }
-  | { type: "BLACK_CARD_CHOICES"; choices: string[] }
-  | { type: "BLACK_CARD_PICKED"; blackCard: string }
+  | { type: "ROUND_START"; blackCard: Card | null; hetmanId: string; round: number }
+  | { type: "BLACK_CARD_CHOICES"; choices: Card[] }
+  | { type: "BLACK_CARD_PICKED"; blackCard: Card }
   | { type: "ALL_SUBMITTED"; submissions: AnonymousSubmission[] }
-  | { type: "WINNER_SELECTED"; submission: Submission; playerName: string }
+  | { type: "YOUR_SUBMISSION"; submissionId: string; cards: Card[] }
+  | { type: "SUBMISSION_RETRACTED"; submissionId: string }
+  | { type: "WINNER_SELECTED"; submission: Submission; playerName: string; ranking: Submission[]; votes: Record<string, number> | null }
   | { type: "ROUND_END"; scores: Score[] }
-  | { type: "GAME_OVER"; winner: PublicPlayer; scores: Score[] }
+  | { type: "GAME_OVER"; winners: PublicPlayer[]; scores: Score[]; reason: GameOverReason }
+  | { type: "GAME_RESTARTED" }
+  | { type: "INACTIVITY_WARNING"; deadline: number }
+  | { type: "INACTIVITY_CLEARED" }
   | { type: "PLAYER_JOINED"; player: PublicPlayer }
   | { type: "PLAYER_RECONNECTED"; playerId: string }
   | { type: "PLAYER_DISCONNECTED"; playerId: string }
@@ -95,18 +115,24 @@ type Action =
   | { type: "SET_CONNECTION"; state: ConnectionState }
   | { type: "ADD_TOAST"; toast: Toast }
   | { type: "REMOVE_TOAST"; id: string }
-  | { type: "SET_SELECTED_CARD"; card: string | null }
+  | { type: "SET_SELECTED_CARDS"; cardIds: string[] }
   | { type: "RESET" };
 
 const initialState: GameState = {
   room:               null,
   myPlayer:           null,
   myHand:             [],
+  isSpectator:        false,
   connectionState:    "disconnected",
   toasts:             [],
-  selectedCard:       null,
+  selectedCardIds:    [],
   lastRoundWinnerId:  null,
   blackCardChoices:   [],
+  gameOverReason:     null,
+  gameWinnerIds:      [],
+  ownSubmissions:     [],
+  voteTally:          null,
+  idleDeadline:       null,
 };
 
 function reducer(state: GameState, action: Action): GameState {
@@ -117,11 +143,14 @@ function reducer(state: GameState, action: Action): GameState {
         room:      action.room,
         myPlayer:  action.myPlayer,
         myHand:    action.myHand,
-        selectedCard: null,
+        isSpectator: action.isSpectator,
+        selectedCardIds: [],
+        // Connecting counts as activity on the server
+        idleDeadline: null,
       };
 
     case "CARDS_DEALT":
-      return { ...state, myHand: action.hand, selectedCard: null };
+      return { ...state, myHand: action.hand, selectedCardIds: [] };
 
     case "UPDATE_ROOM":
       return { ...state, room: action.room };
@@ -131,9 +160,11 @@ function reducer(state: GameState, action: Action): GameState {
       const phase = action.blackCard ? "submitting" : "hetmanPicking";
       return {
         ...state,
-        selectedCard:      null,
+        selectedCardIds:   [],
         lastRoundWinnerId: null,
         blackCardChoices:  [],
+        ownSubmissions:    [],
+        voteTally:         null,
         room: {
           ...state.room,
           currentBlackCard: action.blackCard,
@@ -167,19 +198,32 @@ function reducer(state: GameState, action: Action): GameState {
       if (!state.room) return state;
       return {
         ...state,
-        room: { ...state.room, phase: "judging", submissions: action.submissions },
+        room: {
+          ...state.room,
+          phase: state.room.settings.judgingMode === "democracy" ? "voting" : "judging",
+          submissions: action.submissions,
+        },
       };
     }
 
+    case "YOUR_SUBMISSION":
+      // Re-sent on reconnect — don't list the same answer twice
+      if (state.ownSubmissions.some(s => s.id === action.submissionId)) return state;
+      return { ...state, ownSubmissions: [...state.ownSubmissions, { id: action.submissionId, cards: action.cards }] };
+
+    case "SUBMISSION_RETRACTED":
+      return { ...state, ownSubmissions: state.ownSubmissions.filter(s => s.id !== action.submissionId) };
+
     case "WINNER_SELECTED": {
       if (!state.room) return state;
       return {
         ...state,
         lastRoundWinnerId: action.submission.playerId,
+        voteTally:         action.votes,
         room: {
           ...state.room,
           phase: "reveal",
-          revealedSubmissions: [action.submission],
+          revealedSubmissions: action.ranking,
         },
       };
     }
@@ -204,10 +248,31 @@ function reducer(state: GameState, action: Action): GameState {
       });
       return {
         ...state,
+        gameOverReason: action.reason,
+        gameWinnerIds:  action.winners.map(w => w.id),
+        idleDeadline:   null,
         room: { ...state.room, phase: "gameOver", players: updatedPlayers },
       };
     }
 
+    case "GAME_RESTARTED":
+      // Room state follows from the server; drop everything left over from the last game
+      return {
+        ...state,
+        myHand:            [],
+        selectedCardIds:   [],
+        lastRoundWinnerId: null,
+        blackCardChoices:  [],
+        gameOverReason:    null,
+        gameWinnerIds:     [],
+      };
+
+    case "INACTIVITY_WARNING":
+      return { ...state, idleDeadline: action.deadline };
+
+    case "INACTIVITY_CLEARED":
+      return { ...state, idleDeadline: null };
+
     case "PLAYER_JOINED": {
       if (!state.room) return state;
       const exists = state.room.players.some(p => p.id === action.player.id);
@@ -287,8 +352,8 @@ function reducer(state: GameState, action: Action): GameState {
     case "REMOVE_TOAST":
       return { ...state, toasts: state.toasts.filter(t => t.id !== action.id) };
 
-    case "SET_SELECTED_CARD":
-      return { ...state, selectedCard: action.card };
+    case "SET_SELECTED_CARDS":
+      return { ...state, selectedCardIds: action.cardIds };
 
     case "RESET":
       return { ...initialState };
@@ -312,6 +377,13 @@ function mapWsErrorCode(code: string): string {
     CARD_NOT_IN_HAND:      "error.card_not_in_hand",
     ALREADY_SUBMITTED:     "error.already_submitted",
     NOT_ENOUGH_PLAYERS:    "error.not_enough_players",
+    CUSTOM_CARDS_DISABLED: "error.custom_cards_disabled",
+    CUSTOM_CARD_LIMIT:     "error.custom_card_limit",
+    INVALID_BLACK_CARD:    "error.invalid_black_card",
+    NOT_ENOUGH_CARDS:      "error.not_enough_cards",
+    SPECTATOR_READ_ONLY:   "error.spectator_read_only",
+    GAME_PAUSED:           "error.game_paused",
+    INVALID_SETTINGS:      "error.invalid_settings",
   };
   return map[code] ?? "error.generic";
 }
@@ -323,10 +395,18 @@ interface GameContextValue {
   connect: (roomId: string, token: string) => void;
   disconnect: () => void;
   sendEvent: (event: string, payload?: unknown) => void;
-  selectCard: (card: string | null) => void;
-  submitSelectedCard: () => void;
-  selectWinner: (submissionId: string) => void;
-  pickBlackCard: (card: string) => void;
+  /**
+   * Toggle a hand card (by id) in/out of the ordered selection; `null` clears it.
+   * `limit` is the black card's blank count — the oldest pick drops off once it's exceeded.
+   */
+  selectCard: (cardId: string | null, limit?: number) => void;
+  /** Send the selection; `wager` stakes a point on it as a second answer (gambling house rule). */
+  submitSelectedCards: (wager?: boolean) => void;
+  /** Hetman's verdict by anonymous id: the winner, or the top three in order in ranked judging. */
+  selectWinner: (ranking: string[]) => void;
+  /** Democracy mode: vote for a submission by anonymous id. */
+  castVote: (submissionId: string) => void;
+  pickBlackCard: (cardId: string) => void;
   addToast: (message: string, type?: Toast["type"]) => void;
   dismissToast: (id: string) => void;
 }
@@ -343,6 +423,8 @@ const EVENTS = {
   BLACK_CARD_PICKED:      "black_card_picked",
   SUBMISSION_RECEIVED:    "submission_received",
   ALL_SUBMITTED:          "all_submitted",
+  YOUR_SUBMISSION:        "your_submission",
+  SUBMISSION_RETRACTED:   "submission_retracted",
   WINNER_SELECTED:        "winner_selected",
   ROUND_END:              "round_end",
   GAME_OVER:              "game_over",
@@ -351,6 +433,13 @@ const EVENTS = {
   PLAYER_DISCONNECTED:    "player_disconnected",
   PLAYER_REPLACED_BY_BOT: "player_replaced_by_bot",
   SETTINGS_UPDATED:       "settings_updated",
+  GAME_RESTARTED:         "game_restarted",
+  HAND_REDRAWN:           "hand_redrawn",
+  HETMAN_SKIPPED:         "hetman_skipped",
+  SESSION_WARNING:        "session_warning",
+  SESSION_EXTENDED:       "session_extended",
+  INACTIVITY_WARNING:     "inactivity_warning",
+  INACTIVITY_CLEARED:     "inactivity_cleared",
   ERROR:                  "error",
   PONG:                   "pong",
 } as const;
@@ -375,41 +464,49 @@ export function GameProvider({ children }: { children: ReactNode }) {
     // game events
     const unsubs = [
       wsService.on(EVENTS.ROOM_STATE, raw => {
-        const p = raw as { room?: PublicRoom; myPlayer?: Omit<Player, "token">; myHand?: string[] } & PublicRoom;
+        const p = raw as { room?: PublicRoom; myPlayer?: Omit<Player, "token"> | null; myHand?: Card[]; spectator?: boolean } & PublicRoom;
         // Two variants:
-        // 1. Initial/reconnect (sent directly to socket): { room, myPlayer, myHand }
+        // 1. Initial/reconnect (sent directly to socket): { room, myPlayer, myHand } — myPlayer is null for spectators
         // 2. Broadcast room update (add_bot, settings, etc.):  { room }
         const roomData = p.room ?? (p as unknown as PublicRoom);
         if (p.myPlayer !== undefined) {
-          dispatch({ type: "SET_STATE", room: roomData, myPlayer: p.myPlayer, myHand: p.myHand ?? [] });
+          dispatch({ type: "SET_STATE", room: roomData, myPlayer: p.myPlayer, myHand: p.myHand ?? [], isSpectator: p.spectator === true });
         } else {
           dispatch({ type: "UPDATE_ROOM", room: roomData });
         }
       }),
       wsService.on(EVENTS.ROUND_START, raw => {
-        const p = raw as { blackCard: string | null; hetmanId: string; round: number };
+        const p = raw as { blackCard: Card | null; hetmanId: string; round: number };
         dispatch({ type: "ROUND_START", ...p });
         dispatch({ type: "ADD_TOAST", toast: { id: toastId(), message: t("toast.round_start", undefined, { round: String(p.round) }), type: "info" } });
       }),
       wsService.on(EVENTS.CARDS_DEALT, raw => {
-        const p = raw as { hand: string[] };
+        const p = raw as { hand: Card[] };
         dispatch({ type: "CARDS_DEALT", hand: p.hand });
       }),
       wsService.on(EVENTS.BLACK_CARD_CHOICES, raw => {
-        const p = raw as { choices: string[] };
+        const p = raw as { choices: Card[] };
         dispatch({ type: "BLACK_CARD_CHOICES", choices: p.choices });
       }),
       wsService.on(EVENTS.BLACK_CARD_PICKED, raw => {
-        const p = raw as { blackCard: string };
+        const p = raw as { blackCard: Card };
         dispatch({ type: "BLACK_CARD_PICKED", blackCard: p.blackCard });
       }),
       wsService.on(EVENTS.ALL_SUBMITTED, raw => {
         const p = raw as { submissions: AnonymousSubmission[] };
         dispatch({ type: "ALL_SUBMITTED", submissions: p.submissions });
       }),
+      wsService.on(EVENTS.YOUR_SUBMISSION, raw => {
+        const p = raw as { submissionId: string; cards: Card[] };
+        dispatch({ type: "YOUR_SUBMISSION", submissionId: p.submissionId, cards: p.cards });
+      }),
+      wsService.on(EVENTS.SUBMISSION_RETRACTED, raw => {
+        const p = raw as { submissionId: string };
+        dispatch({ type: "SUBMISSION_RETRACTED", submissionId: p.submissionId });
+      }),
       wsService.on(EVENTS.WINNER_SELECTED, raw => {
-        const p = raw as { submission: Submission; playerName: string };
-        dispatch({ type: "WINNER_SELECTED", submission: p.submission, playerName: p.playerName });
+        const p = raw as { submission: Submission; playerName: string; ranking?: Submission[]; votes?: Record<string, number> | null };
+        dispatch({ type: "WINNER_SELECTED", submission: p.submission, playerName: p.playerName, ranking: p.ranking ?? [p.submission], votes: p.votes ?? null });
         dispatch({ type: "ADD_TOAST", toast: { id: toastId(), message: t("toast.winner_announced", undefined, { name: p.playerName }), type: "success" } });
       }),
       wsService.on(EVENTS.ROUND_END, raw => {
@@ -417,8 +514,35 @@ export function GameProvider({ children }: { children: ReactNode }) {
         dispatch({ type: "ROUND_END", scores: p.scores });
       }),
       wsService.on(EVENTS.GAME_OVER, raw => {
-        const p = raw as { winner: PublicPlayer; scores: Score[] };
-        dispatch({ type: "GAME_OVER", winner: p.winner, scores: p.scores });
+        const p = raw as { winners: PublicPlayer[]; scores: Score[]; reason: GameOverReason };
+        dispatch({ type: "GAME_OVER", winners: p.winners, scores: p.scores, reason: p.reason });
+      }),
+      wsService.on(EVENTS.GAME_RESTARTED, () => {
+        dispatch({ type: "GAME_RESTARTED" });
+        dispatch({ type: "ADD_TOAST", toast: { id: toastId(), message: t("toast.rematch"), type: "info" } });
+      }),
+      wsService.on(EVENTS.HAND_REDRAWN, raw => {
+        const p = raw as { playerId: string; playerName: string };
+        dispatch({ type: "ADD_TOAST", toast: { id: toastId(), message: t("toast.hand_redrawn", undefined, { name: p.playerName }), type: "info" } });
+      }),
+      wsService.on(EVENTS.HETMAN_SKIPPED, raw => {
+        const p = raw as { playerId: string; playerName: string; hetmanId: string; hetmanName: string };
+        dispatch({ type: "ADD_TOAST", toast: { id: toastId(), message: t("toast.hetman_skipped", undefined, { name: p.playerName, next: p.hetmanName }), type: "warning" } });
+      }),
+      wsService.on(EVENTS.SESSION_WARNING, raw => {
+        const p = raw as { minutesLeft: number };
+        dispatch({ type: "ADD_TOAST", toast: { id: toastId(), message: t("toast.session_warning", undefined, { n: String(p.minutesLeft) }), type: "warning" } });
+      }),
+      wsService.on(EVENTS.SESSION_EXTENDED, raw => {
+        const p = raw as { minutes: number };
+        dispatch({ type: "ADD_TOAST", toast: { id: toastId(), message: t("toast.session_extended", undefined, { n: String(p.minutes) }), type: "info" } });
+      }),
+      wsService.on(EVENTS.INACTIVITY_WARNING, raw => {
+        const p = raw as { secondsLeft: number };
+        dispatch({ type: "INACTIVITY_WARNING", deadline: Date.now() + p.secondsLeft * 1_000 });
+      }),
+      wsService.on(EVENTS.INACTIVITY_CLEARED, () => {
+        dispatch({ type: "INACTIVITY_CLEARED" });
       }),
       wsService.on(EVENTS.PLAYER_JOINED, raw => {
         const p = raw as { player: PublicPlayer };
@@ -483,23 +607,35 @@ export function GameProvider({ children }: { children: ReactNode }) {
     wsService.send(event, payload);
   }, []);
 
-  const selectCard = useCallback((card: string | null) => {
-    dispatch({ type: "SET_SELECTED_CARD", card });
+  const selectCard = useCallback((cardId: string | null, limit = 1) => {
+    if (cardId === null) {
+      dispatch({ type: "SET_SELECTED_CARDS", cardIds: [] });
+      return;
+    }
+    const current = state.selectedCardIds;
+    const cardIds = current.includes(cardId)
+      ? current.filter(id => id !== cardId)
+      : [...current, cardId].slice(-limit);
+    dispatch({ type: "SET_SELECTED_CARDS", cardIds });
+  }, [state.selectedCardIds]);
+
+  const submitSelectedCards = useCallback((wager = false) => {
+    const cardIds = state.selectedCardIds;
+    if (cardIds.length === 0) return;
+    wsService.send("submit_card", wager ? { cardIds, wager } : { cardIds });
+    dispatch({ type: "SET_SELECTED_CARDS", cardIds: [] });
+  }, [state.selectedCardIds]);
+
+  const selectWinner = useCallback((ranking: string[]) => {
+    wsService.send("select_winner", { ranking });
   }, []);
 
-  const submitSelectedCard = useCallback(() => {
-    const card = state.selectedCard;
-    if (!card) return;
-    wsService.send("submit_card", { card });
-    dispatch({ type: "SET_SELECTED_CARD", card: null });
-  }, [state.selectedCard]);
-
-  const selectWinner = useCallback((submissionId: string) => {
-    wsService.send("select_winner", { submissionId });
+  const castVote = useCallback((submissionId: string) => {
+    wsService.send("cast_vote", { submissionId });
   }, []);
 
-  const pickBlackCard = useCallback((card: string) => {
-    wsService.send("pick_black_card", { card });
+  const pickBlackCard = useCallback((cardId: string) => {
+    wsService.send("pick_black_card", { cardId });
   }, []);
 
   return (
@@ -509,8 +645,9 @@ export function GameProvider({ children }: { children: ReactNode }) {
       disconnect,
       sendEvent,
       selectCard,
-      submitSelectedCard,
+      submitSelectedCards,
       selectWinner,
+      castVote,
       pickBlackCard,
       addToast,
       dismissToast,
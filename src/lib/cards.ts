@@ -2,9 +2,30 @@
 //  Card data for "Погані Картки" (Cards Against Humanity UA edition)
 //  Black cards: use _ as a blank placeholder.
 //  White cards: short nouns / phrases that fill the blanks.
+//
+//  Cards are grouped into packs. Card ids are derived from the pack id and the
+//  card's position inside the pack, so new cards must be APPENDED to a pack
+//  (never inserted or reordered) to keep existing ids stable.
 // ─────────────────────────────────────────────────────────────────────────────
 
-export const blackCards: string[] = [
+import type { Card, CardLanguage } from "./types";
+
+/** A run of raw card texts sharing the same tags. */
+interface CardSection {
+  tags: string[];
+  cards: string[];
+}
+
+export interface CardPack {
+  id: string;
+  lang: CardLanguage;
+  black: Card[];
+  white: Card[];
+}
+
+// ── Base UA ──────────────────────────────────────────────────────────────────
+
+const UA_BASE_BLACK: string[] = [
   // single-blank
   "Вчені нарешті з'ясували, що викликає депресію. Це — _.",
   "Мій дід казав: «Найгірше в житті — це _.»",
@@ -101,427 +122,473 @@ export const blackCards: string[] = [
   "Конфіскат звичайного дня: одна копія _, дві надії і трохи сорому.",
 ];
 
-export const whiteCards: string[] = [
+const UA_BASE_WHITE: CardSection[] = [
   // people/characters
-  "Зеленський у піжамі",
-  "Бабуся з борщем",
-  "П'яний депутат",
-  "Суворий сантехнік",
-  "Блогер-дієтолог",
-  "Котик Зефір",
-  "Покровитель корупції",
-  "Чиновник на Bentley",
-  "IT-шник без сну",
-  "Вічний студент",
-  "Бариста-філософ",
-  "Тітонька Люда з порадами",
-  "Дядько Вася з дачею",
-  "Мем-лорд інтернету",
-  "Пенсіонер у чаті ОСББ",
-  "Патріотичний тролейбус",
-  "Незадоволений клієнт",
-  "Психолог без ліцензії",
-  "Ветеран сусідських війн",
-  "Лікар сімейної медицини",
+  { tags: ["people"], cards: [
+    "Зеленський у піжамі",
+    "Бабуся з борщем",
+    "П'яний депутат",
+    "Суворий сантехнік",
+    "Блогер-дієтолог",
+    "Котик Зефір",
+    "Покровитель корупції",
+    "Чиновник на Bentley",
+    "IT-шник без сну",
+    "Вічний студент",
+    "Бариста-філософ",
+    "Тітонька Люда з порадами",
+    "Дядько Вася з дачею",
+    "Мем-лорд інтернету",
+    "Пенсіонер у чаті ОСББ",
+    "Патріотичний тролейбус",
+    "Незадоволений клієнт",
+    "Психолог без ліцензії",
+    "Ветеран сусідських війн",
+    "Лікар сімейної медицини",
+  ] },
   // food & drink
-  "Борщ із часником",
-  "Вареники з картоплею",
-  "Сало в шоколаді",
-  "Кава за 80 гривень",
-  "Протухлий холодець",
-  "Банка з огірками",
-  "Котлета по-київськи",
-  "Гречка на три тижні",
-  "Знежирений кефір",
-  "Паска без родзинок",
-  "Пиріжок із нічого",
-  "Куліш на вогнищі",
-  "Медівник від бабусі",
-  "Смузі з буряка",
-  "Чай із чебрецем",
-  "Горілка без закуски",
-  "Пляцок зі Львова",
-  "Квасоля з лавровим листом",
-  "Тушонка 2003 року",
-  "Доширак із гордістю",
+  { tags: ["food"], cards: [
+    "Борщ із часником",
+    "Вареники з картоплею",
+    "Сало в шоколаді",
+    "Кава за 80 гривень",
+    "Протухлий холодець",
+    "Банка з огірками",
+    "Котлета по-київськи",
+    "Гречка на три тижні",
+    "Знежирений кефір",
+    "Паска без родзинок",
+    "Пиріжок із нічого",
+    "Куліш на вогнищі",
+    "Медівник від бабусі",
+    "Смузі з буряка",
+    "Чай із чебрецем",
+    "Горілка без закуски",
+    "Пляцок зі Львова",
+    "Квасоля з лавровим листом",
+    "Тушонка 2003 року",
+    "Доширак із гордістю",
+  ] },
   // places & infrastructure
-  "Яма на дорозі",
-  "Черга у ЖЕКу",
-  "Ліфт у хрущовці",
-  "Укрпошта в понеділок",
-  "Маршрутка без дверцят",
-  "Ринок із запахом",
-  "Підвал із картоплею",
-  "Обласна рада",
-  "Сільський стадіон",
-  "Метро у годину пік",
-  "Дитячий майданчик з іржею",
-  "Будівля «під реконструкцію»",
-  "Парк із лавочками без дощок",
-  "Пральня на першому поверсі",
-  "Генератор на балконі",
+  { tags: ["places"], cards: [
+    "Яма на дорозі",
+    "Черга у ЖЕКу",
+    "Ліфт у хрущовці",
+    "Укрпошта в понеділок",
+    "Маршрутка без дверцят",
+    "Ринок із запахом",
+    "Підвал із картоплею",
+    "Обласна рада",
+    "Сільський стадіон",
+    "Метро у годину пік",
+    "Дитячий майданчик з іржею",
+    "Будівля «під реконструкцію»",
+    "Парк із лавочками без дощок",
+    "Пральня на першому поверсі",
+    "Генератор на балконі",
+  ] },
   // abstract concepts
-  "Безкінечний оптимізм",
-  "Квантова прокрастинація",
-  "Тихе відчай",
-  "Раптова патріотична сльоза",
-  "Синдром самозванця",
-  "Глибока лінь",
-  "Фінансова грамотність",
-  "Колективна відповідальність",
-  "Стратегічне невігластво",
-  "Поміркована паніка",
-  "Хаотична енергія",
-  "Неочікувана мудрість",
-  "Системний збій",
-  "Тотальне непорозуміння",
-  "Екзистенційна нудьга",
-  "Легкий жах",
-  "Моральна гнучкість",
-  "Помилкова впевненість",
-  "Публічний сором",
-  "Вічне очікування",
+  { tags: ["abstract"], cards: [
+    "Безкінечний оптимізм",
+    "Квантова прокрастинація",
+    "Тихе відчай",
+    "Раптова патріотична сльоза",
+    "Синдром самозванця",
+    "Глибока лінь",
+    "Фінансова грамотність",
+    "Колективна відповідальність",
+    "Стратегічне невігластво",
+    "Поміркована паніка",
+    "Хаотична енергія",
+    "Неочікувана мудрість",
+    "Системний збій",
+    "Тотальне непорозуміння",
+    "Екзистенційна нудьга",
+    "Легкий жах",
+    "Моральна гнучкість",
+    "Помилкова впевненість",
+    "Публічний сором",
+    "Вічне очікування",
+  ] },
   // technology & modern life
-  "Відключення світла",
-  "Wi-Fi сусіда",
-  "Дедлайн учора",
-  "Зум-колл у піжамі",
-  "Чат-бот без мозку",
-  "Криптовалюта батька",
-  "Оновлення Windows",
-  "Акаунт у TikTok",
-  "Нескінченний скрол",
-  "Дропшипінг без продажів",
-  "Пароль «password123»",
-  "Сповіщення о 3 ночі",
-  "Excel на 5000 рядків",
-  "Акумулятор 1%",
-  "Фейковий відгук",
-  "Спам від банку",
-  "Втрачений кабель зарядки",
-  "Нова \"революційна\" апка",
-  "Публічний Wi-Fi",
-  "Скріншот особистого переписування",
+  { tags: ["tech"], cards: [
+    "Відключення світла",
+    "Wi-Fi сусіда",
+    "Дедлайн учора",
+    "Зум-колл у піжамі",
+    "Чат-бот без мозку",
+    "Криптовалюта батька",
+    "Оновлення Windows",
+    "Акаунт у TikTok",
+    "Нескінченний скрол",
+    "Дропшипінг без продажів",
+    "Пароль «password123»",
+    "Сповіщення о 3 ночі",
+    "Excel на 5000 рядків",
+    "Акумулятор 1%",
+    "Фейковий відгук",
+    "Спам від банку",
+    "Втрачений кабель зарядки",
+    "Нова \"революційна\" апка",
+    "Публічний Wi-Fi",
+    "Скріншот особистого переписування",
+  ] },
   // nature & animals
-  "Злий гусак",
-  "Бездомний їжак",
-  "Корова на трасі",
-  "Пес із сумним поглядом",
-  "Зозуля без відповіді",
-  "Осінній дощ у вересні",
-  "Весняний бруд",
-  "Перший сніг у квітні",
-  "Комар у вухо",
-  "Мишка у хліборобці",
-  "Курка-рекордсменка",
-  "Кріт на городі",
-  "Оса в кімнаті",
-  "Жаби після дощу",
-  "Павутина на лиці",
+  { tags: ["nature"], cards: [
+    "Злий гусак",
+    "Бездомний їжак",
+    "Корова на трасі",
+    "Пес із сумним поглядом",
+    "Зозуля без відповіді",
+    "Осінній дощ у вересні",
+    "Весняний бруд",
+    "Перший сніг у квітні",
+    "Комар у вухо",
+    "Мишка у хліборобці",
+    "Курка-рекордсменка",
+    "Кріт на городі",
+    "Оса в кімнаті",
+    "Жаби після дощу",
+    "Павутина на лиці",
+  ] },
   // health & body
-  "Грип у серпні",
-  "Черга до лікаря",
-  "Народна медицина",
-  "Горщик з геранню",
-  "Лускатне коліно",
-  "Болить «ось тут»",
-  "Запис за місяць наперед",
-  "Таблетка «на всяк випадок»",
-  "Самолікування YouTube",
-  "Алергія на повітря",
-  "Вітамін D у дефіциті",
-  "Кров'яний тиск дідуся",
-  "Маска на підборідді",
-  "Дієта з понеділка",
-  "Заняття йогою раз на рік",
+  { tags: ["health"], cards: [
+    "Грип у серпні",
+    "Черга до лікаря",
+    "Народна медицина",
+    "Горщик з геранню",
+    "Лускатне коліно",
+    "Болить «ось тут»",
+    "Запис за місяць наперед",
+    "Таблетка «на всяк випадок»",
+    "Самолікування YouTube",
+    "Алергія на повітря",
+    "Вітамін D у дефіциті",
+    "Кров'яний тиск дідуся",
+    "Маска на підборідді",
+    "Дієта з понеділка",
+    "Заняття йогою раз на рік",
+  ] },
   // politics & society
-  "Реформа реформ",
-  "Прес-конференція ні про що",
-  "Антикорупційний корупціонер",
-  "Євроінтеграція по-нашому",
-  "Субсидія на мрії",
-  "Бюджетний дефіцит душі",
-  "Популістське обіцянко",
-  "Опозиція всередині опозиції",
-  "Виборчий пиріг",
-  "Комітет з питань комітетів",
-  // culture & entertainment
-  "Серіал про закохану лікарку",
-  "Квест «знайди квитанцію»",
-  "Весілля на 200 осіб",
-  "Хрестини наприкінці серпня",
-  "Концерт у ДК",
-  "Дискотека 90-х",
-  "Телебачення після 22:00",
-  "Книжковий ярмарок у дощ",
-  "Кіно в маршрутці",
-  "Народна пісня після третьої",
+  { tags: ["politics"], cards: [
+    "Реформа реформ",
+    "Прес-конференція ні про що",
+    "Антикорупційний корупціонер",
+    "Євроінтеграція по-нашому",
+    "Субсидія на мрії",
+    "Бюджетний дефіцит душі",
+    "Популістське обіцянко",
+    "Опозиція всередині опозиції",
+    "Виборчий пиріг",
+    "Комітет з питань комітетів",
+  ] },
   // work & money
-  "Зарплата «в конверті»",
-  "Відпустка без відпустки",
-  "Кар'єрна стеля",
-  "Корпоратив в офісі",
-  "Звільнення по-тихому",
-  "Аванс до авансу",
-  "Робота вдома без дому",
-  "Колега-шпигун",
-  "Підвищення «наступного кварталу»",
-  "Бонус словами",
+  { tags: ["work"], cards: [
+    "Зарплата «в конверті»",
+    "Відпустка без відпустки",
+    "Кар'єрна стеля",
+    "Корпоратив в офісі",
+    "Звільнення по-тихому",
+    "Аванс до авансу",
+    "Робота вдома без дому",
+    "Колега-шпигун",
+    "Підвищення «наступного кварталу»",
+    "Бонус словами",
+  ] },
   // extra vivid phrases
-  "Цілодобове нічого",
-  "Несподіваний вихідний",
-  "Чужий собака на дивані",
-  "Повернення блудного wifi",
-  "Мокрі шкарпетки",
-  "Забутий день народження",
-  "Помилковий будильник",
-  "Хліб без пакета",
-  "Дрібні монети в кишені",
-  "Старий календар на стіні",
-  "Ключі, яких немає",
-  "Порожній холодильник і надія",
-  "Квіти без приводу",
-  "Прострочена реклама",
-  "Вмивальник без пробки",
-  "Пластиковий пакет із пакетами",
-  "Інструкція без перекладу",
-  "Зламана парасолька в дощ",
-  "Пляшка без відкривачки",
-  "Перефотографований борщ",
+  { tags: [], cards: [
+    "Цілодобове нічого",
+    "Несподіваний вихідний",
+    "Чужий собака на дивані",
+    "Повернення блудного wifi",
+    "Мокрі шкарпетки",
+    "Забутий день народження",
+    "Помилковий будильник",
+    "Хліб без пакета",
+    "Дрібні монети в кишені",
+    "Старий календар на стіні",
+    "Ключі, яких немає",
+    "Порожній холодильник і надія",
+    "Квіти без приводу",
+    "Прострочена реклама",
+    "Вмивальник без пробки",
+    "Пластиковий пакет із пакетами",
+    "Інструкція без перекладу",
+    "Зламана парасолька в дощ",
+    "Пляшка без відкривачки",
+    "Перефотографований борщ",
+  ] },
   // more abstract / funny
-  "Надмірна порядність",
-  "Публічне зізнання",
-  "Вчасна помста",
-  "Дитячий trauma",
-  "Незаслужений комплімент",
-  "Чужа думка о 2 ночі",
-  "Напружена тиша",
-  "Раптова мудрість",
-  "Сусідський дриль у неділю",
-  "Дозвіл без сенсу",
-  "Обіцяний ремонт",
-  "Вічний план «з понеділка»",
-  "Сумна флейта у підземці",
-  "Каша з нічого",
-  "Безліч порад від усіх",
-  "Образа без слів",
-  "Ностальгія за тим, чого не було",
-  "Самотність у натовпі",
-  "Незручна правда",
-  "Марна надія",
-  "Велике роз'яснення нічого",
-  "Мовчазна згода",
-  "Чиясь проблема",
-  "Питання без відповіді",
-  "Пустий жест",
-  // Ukrainian specifics
-  "Мова «та й мова»",
-  "Дух козацький",
-  "Трипільська культура",
-  "Борщ як ідентичність",
-  "Вишиванка в понеділок",
-  "Степ без кінця",
-  "Хата скраю",
-  "Калина при дорозі",
-  "Соняшник у вазі",
-  "Небо в алмазах",
-  "Кобзар під подушкою",
-  "Клімат-біженець із Херсона",
-  "Вареник-символ нації",
-  "Мазепа і легенди",
-  "Рушник вишиваний",
-  "Пісня без слів",
-  "Хліб-сіль на рушнику",
-  "Свічка в темряві",
-  "Тризуб на лобі",
-  "Вогонь у серці",
-  // more pop culture
-  "Байрактар у подарунок",
-  "Черга за паляницею",
-  "Заєць «Джавелін»",
-  "Мем про понеділок",
-  "Генератор щастя",
-  "Розклад без сенсу",
-  "Безкінечна реформа ЖКГ",
-  "Сонячна батарея на хрущовці",
-  "Пауербанк для душі",
-  "Зарядка в кафе",
-  "Тепловий насос і молитва",
-  "Підвал як стиль życia",
-  "Мобілізаційна повістка",
-  "Броня для програміста",
-  "Волонтерський борщ",
-  "Дрон із прапором",
-  "Позиційна оборона стосунків",
-  "Зарплата у долларах i мрії в гривнях",
-  "Черга на е-черзі",
-  "Перевірений ЗСУ",
+  { tags: ["abstract"], cards: [
+    "Надмірна порядність",
+    "Публічне зізнання",
+    "Вчасна помста",
+    "Дитячий trauma",
+    "Незаслужений комплімент",
+    "Чужа думка о 2 ночі",
+    "Напружена тиша",
+    "Раптова мудрість",
+    "Сусідський дриль у неділю",
+    "Дозвіл без сенсу",
+    "Обіцяний ремонт",
+    "Вічний план «з понеділка»",
+    "Сумна флейта у підземці",
+    "Каша з нічого",
+    "Безліч порад від усіх",
+    "Образа без слів",
+    "Ностальгія за тим, чого не було",
+    "Самотність у натовпі",
+    "Незручна правда",
+    "Марна надія",
+    "Велике роз'яснення нічого",
+    "Мовчазна згода",
+    "Чиясь проблема",
+    "Питання без відповіді",
+    "Пустий жест",
+  ] },
   // extra for padding to 420+
-  "Кіт Патрон",
-  "Бойова медикиня",
-  "Нічна варта",
-  "Укриття в метро",
-  "Тривога о 5 ранку",
-  "Відключений газ",
-  "Запас гречки",
-  "Батько-героїня",
-  "Онук-програміст",
-  "Справжній патріот",
-  "Фейсбук-активіст",
-  "Стратегічний запас сала",
-  "Обласний чиновник",
-  "Тендерний комітет",
-  "Незалежна незалежність",
-  "Позасистемний підхід",
-  "Ліберальний консерватор",
-  "Прогресивна традиція",
-  "Цифрова держава в аналоговому селі",
-  "Бюрократична магія",
+  { tags: [], cards: [
+    "Кіт Патрон",
+    "Бойова медикиня",
+    "Нічна варта",
+    "Укриття в метро",
+    "Тривога о 5 ранку",
+    "Відключений газ",
+    "Запас гречки",
+    "Батько-героїня",
+    "Онук-програміст",
+    "Справжній патріот",
+    "Фейсбук-активіст",
+    "Стратегічний запас сала",
+    "Обласний чиновник",
+    "Тендерний комітет",
+    "Незалежна незалежність",
+    "Позасистемний підхід",
+    "Ліберальний консерватор",
+    "Прогресивна традиція",
+    "Цифрова держава в аналоговому селі",
+    "Бюрократична магія",
+  ] },
   // extra additions for 400+
-  "Ранковий подкаст ні про що",
-  "Аудіокнига без фіналу",
-  "Квартира без паркування",
-  "Сусід-реставратор",
-  "Безмовний крик всередині",
-  "Незаплановане свято",
-  "Причина не вставати",
-  "Спонтанний похід у супермаркет",
-  "Зламаний каблук рішення",
-  "Одна зайва таблетка",
-  "Зустріч із собою",
-  "Справжній сигнал тривоги",
-  "Плач у ванній",
-  "Щасливе непорозуміння",
-  "Кілька невдалих спроб",
-  "Офіційний вибачення",
-  "Подарунок без поводу",
-  "Неоголошений конкурс краси",
-  "Недосяжна планка",
-  "Прихований талант",
-  "Корисна звичка на 3 дні",
-  "Вислів про вихідні",
-  "Мигдальне молоко без мигдалю",
-  "Непотрібна нотатка",
-  "Хаотична ранкова рутина",
-  "Семінар у сні",
-  "Раптова відверта розмова",
-  "Незакінчений твір",
-  "Тихий скандал",
-  "Необов'язковий урок",
-  "Незапланована перерва",
-  "Запізнення з виправданням",
-  "Повторна помилка",
-  "Заспаний вибір",
-  "Принципова відмова",
-  "Незрозумілий жарт",
-  "Ненормований день",
-  "Спонтанна покупка",
-  "Безглузда суперечка",
-  "Третій зайвий на вечірці",
-  "Легка образа",
-  "Симптом без хвороби",
-  "Посмішка крізь сльози",
-  "Щоденний страх",
-  "Неочікуване рішення",
-  "Відкладена розмова",
-  "Забутий код відгуку",
-  "Хибна тривога",
-  "Зайвий коментар",
-  "Неявна образа",
-  "Хронічна втома",
-  "Неочевидний висновок",
-  "Вчасна допомога",
-  "Запізніле розкаяння",
-  "Непотрібна порада",
-  "Ненавмисна правда",
-  "Цілеспрямована випадковість",
-  "Невиправданий ризик",
-  "Довгоочікувана відповідь",
-  "Вдале непорозуміння",
-  "Надзвичайно звичайний день",
-  "Зупинка у нікуди",
-  "Половина рішення",
-  "Ввічлива неправда",
-  "Неповна картина",
-  "Крок назад перед стрибком",
-  "Марна відмовка",
-  "Гідне прощання",
-  "Відмова від відмови",
-  "Невчасний сміх",
-  "Принципова дрібниця",
-  "Незручна пауза",
-  "Спільна мовчанка",
-  "Безмовний дорікання",
-  "Тихе примирення",
-  "Несподіваний союзник",
-  "Переможений переможець",
-  "Порожня перемога",
-  "Непотрібний ультиматум",
-  "Незрозуміла лояльність",
-  "Приховане задоволення",
-  "Таємна заздрість",
-  "Щира неправда",
-  "Половина правди",
-  "Повна нісенітниця",
-  "Відверта брехня",
-  "Чесна маніпуляція",
-  "Жорстока доброта",
-  "Ніжна грубість",
-  "Солодка помста",
-  "Гіркий успіх",
-  "Дорога безкоштовна порада",
-  "Незамінна деталь",
-  "Термінова тиша",
-  "Плановий хаос",
-  "Свідомий самообман",
-  "Добровільна поневіра",
-  "Раціональна паніка",
-  "Організована анархія",
-  "Керований безлад",
-  "Впорядкований хаос",
-  "Мирна революція",
-  "Тихий бунт",
-  "Скромна амбіція",
-  "Величне банальне",
-  "Глибока поверховість",
-  "Тонка грубість",
-  "Штучна щирість",
-  "Природна штучність",
-  "Тепла байдужість",
-  "Холодна пристрасть",
-  "Живий труп",
-  "Мертва ідея",
-  "Порожній повний склянки",
-  "Велика маленька проблема",
-  "Важка легкість",
-  "Легка важкість",
-  "Темне просвітлення",
-  "Яскрава темрява",
-  "Гучна тиша",
-  "Мовчазний крик",
-  "Впевнена невизначеність",
-  "Стабільна нестабільність",
+  { tags: [], cards: [
+    "Ранковий подкаст ні про що",
+    "Аудіокнига без фіналу",
+    "Квартира без паркування",
+    "Сусід-реставратор",
+    "Безмовний крик всередині",
+    "Незаплановане свято",
+    "Причина не вставати",
+    "Спонтанний похід у супермаркет",
+    "Зламаний каблук рішення",
+    "Одна зайва таблетка",
+    "Зустріч із собою",
+    "Справжній сигнал тривоги",
+    "Плач у ванній",
+    "Щасливе непорозуміння",
+    "Кілька невдалих спроб",
+    "Офіційний вибачення",
+    "Подарунок без поводу",
+    "Неоголошений конкурс краси",
+    "Недосяжна планка",
+    "Прихований талант",
+    "Корисна звичка на 3 дні",
+    "Вислів про вихідні",
+    "Мигдальне молоко без мигдалю",
+    "Непотрібна нотатка",
+    "Хаотична ранкова рутина",
+    "Семінар у сні",
+    "Раптова відверта розмова",
+    "Незакінчений твір",
+    "Тихий скандал",
+    "Необов'язковий урок",
+    "Незапланована перерва",
+    "Запізнення з виправданням",
+    "Повторна помилка",
+    "Заспаний вибір",
+    "Принципова відмова",
+    "Незрозумілий жарт",
+    "Ненормований день",
+    "Спонтанна покупка",
+    "Безглузда суперечка",
+    "Третій зайвий на вечірці",
+    "Легка образа",
+    "Симптом без хвороби",
+    "Посмішка крізь сльози",
+    "Щоденний страх",
+    "Неочікуване рішення",
+    "Відкладена розмова",
+    "Забутий код відгуку",
+    "Хибна тривога",
+    "Зайвий коментар",
+    "Неявна образа",
+    "Хронічна втома",
+    "Неочевидний висновок",
+    "Вчасна допомога",
+    "Запізніле розкаяння",
+    "Непотрібна порада",
+    "Ненавмисна правда",
+    "Цілеспрямована випадковість",
+    "Невиправданий ризик",
+    "Довгоочікувана відповідь",
+    "Вдале непорозуміння",
+    "Надзвичайно звичайний день",
+    "Зупинка у нікуди",
+    "Половина рішення",
+    "Ввічлива неправда",
+    "Неповна картина",
+    "Крок назад перед стрибком",
+    "Марна відмовка",
+    "Гідне прощання",
+    "Відмова від відмови",
+    "Невчасний сміх",
+    "Принципова дрібниця",
+    "Незручна пауза",
+    "Спільна мовчанка",
+    "Безмовний дорікання",
+    "Тихе примирення",
+    "Несподіваний союзник",
+    "Переможений переможець",
+    "Порожня перемога",
+    "Непотрібний ультиматум",
+    "Незрозуміла лояльність",
+    "Приховане задоволення",
+    "Таємна заздрість",
+    "Щира неправда",
+    "Половина правди",
+    "Повна нісенітниця",
+    "Відверта брехня",
+    "Чесна маніпуляція",
+    "Жорстока доброта",
+    "Ніжна грубість",
+    "Солодка помста",
+    "Гіркий успіх",
+    "Дорога безкоштовна порада",
+    "Незамінна деталь",
+    "Термінова тиша",
+    "Плановий хаос",
+    "Свідомий самообман",
+    "Добровільна поневіра",
+    "Раціональна паніка",
+    "Організована анархія",
+    "Керований безлад",
+    "Впорядкований хаос",
+    "Мирна революція",
+    "Тихий бунт",
+    "Скромна амбіція",
+    "Величне банальне",
+    "Глибока поверховість",
+    "Тонка грубість",
+    "Штучна щирість",
+    "Природна штучність",
+    "Тепла байдужість",
+    "Холодна пристрасть",
+    "Живий труп",
+    "Мертва ідея",
+    "Порожній повний склянки",
+    "Велика маленька проблема",
+    "Важка легкість",
+    "Легка важкість",
+    "Темне просвітлення",
+    "Яскрава темрява",
+    "Гучна тиша",
+    "Мовчазний крик",
+    "Впевнена невизначеність",
+    "Стабільна нестабільність",
+  ] },
   // final padding
-  "Обіцянка без терміну",
-  "Шрам без болю",
-  "Жаль без жалості",
-  "Сміх без причини",
-  "Думка без слів",
-  "Слово без думки",
-  "Дія без наслідків",
-  "Наслідок без дії",
-  "Питання без запитання",
-  "Відповідь ні на що",
-  "Мрія без адреси",
-  "Адреса без мрії",
-  "Час без часу",
-  "Місце без місця",
-  "Щось дуже важливе",
-  "Ніщо з великої літери",
-  "Абсолютно все",
+  { tags: [], cards: [
+    "Обіцянка без терміну",
+    "Шрам без болю",
+    "Жаль без жалості",
+    "Сміх без причини",
+    "Думка без слів",
+    "Слово без думки",
+    "Дія без наслідків",
+    "Наслідок без дії",
+    "Питання без запитання",
+    "Відповідь ні на що",
+    "Мрія без адреси",
+    "Адреса без мрії",
+    "Час без часу",
+    "Місце без місця",
+    "Щось дуже важливе",
+    "Ніщо з великої літери",
+    "Абсолютно все",
+  ] },
+];
+
+// ── Ukrainian specifics ──────────────────────────────────────────────────────
+
+const UA_SPECIFICS_WHITE: CardSection[] = [
+  // Ukrainian specifics
+  { tags: ["ukraine"], cards: [
+    "Мова «та й мова»",
+    "Дух козацький",
+    "Трипільська культура",
+    "Борщ як ідентичність",
+    "Вишиванка в понеділок",
+    "Степ без кінця",
+    "Хата скраю",
+    "Калина при дорозі",
+    "Соняшник у вазі",
+    "Небо в алмазах",
+    "Кобзар під подушкою",
+    "Клімат-біженець із Херсона",
+    "Вареник-символ нації",
+    "Мазепа і легенди",
+    "Рушник вишиваний",
+    "Пісня без слів",
+    "Хліб-сіль на рушнику",
+    "Свічка в темряві",
+    "Тризуб на лобі",
+    "Вогонь у серці",
+  ] },
+];
+
+// ── Pop culture (UA) ─────────────────────────────────────────────────────────
+
+const UA_POP_CULTURE_WHITE: CardSection[] = [
+  // culture & entertainment
+  { tags: ["culture"], cards: [
+    "Серіал про закохану лікарку",
+    "Квест «знайди квитанцію»",
+    "Весілля на 200 осіб",
+    "Хрестини наприкінці серпня",
+    "Концерт у ДК",
+    "Дискотека 90-х",
+    "Телебачення після 22:00",
+    "Книжковий ярмарок у дощ",
+    "Кіно в маршрутці",
+    "Народна пісня після третьої",
+  ] },
+  // more pop culture
+  { tags: ["pop-culture"], cards: [
+    "Байрактар у подарунок",
+    "Черга за паляницею",
+    "Заєць «Джавелін»",
+    "Мем про понеділок",
+    "Генератор щастя",
+    "Розклад без сенсу",
+    "Безкінечна реформа ЖКГ",
+    "Сонячна батарея на хрущовці",
+    "Пауербанк для душі",
+    "Зарядка в кафе",
+    "Тепловий насос і молитва",
+    "Підвал як стиль życia",
+    "Мобілізаційна повістка",
+    "Броня для програміста",
+    "Волонтерський борщ",
+    "Дрон із прапором",
+    "Позиційна оборона стосунків",
+    "Зарплата у долларах i мрії в гривнях",
+    "Черга на е-черзі",
+    "Перевірений ЗСУ",
+  ] },
 ];
 
-export const blackCardsEn: string[] = [
+// ── Base EN ──────────────────────────────────────────────────────────────────
+
+const EN_BASE_BLACK: string[] = [
   "Scientists finally discovered what causes depression. It's _.",
   "My grandfather always said: 'The worst thing in life is _.'",
   "For my birthday they gave me _. Best gift ever.",
@@ -616,7 +683,7 @@ export const blackCardsEn: string[] = [
   "Official confiscation of an average day: one copy of _, two hopes, and a bit of shame.",
 ];
 
-export const whiteCardsEn: string[] = [
+const EN_BASE_WHITE: string[] = [
   "Zelensky in pajamas", "Grandma with borscht", "Drunk MP", "Strict plumber", "Diet blogger",
   "Cat named Biscuit", "Champion of corruption", "Official in a Bentley", "Sleep-deprived dev",
   "Eternal student", "Philosopher barista", "Aunt Linda's advice", "Uncle Bob's garden",
@@ -755,6 +822,62 @@ export const whiteCardsEn: string[] = [
   "The forbidden nap", "Aggressive mediocrity", "Terminal chill",
 ];
 
+// ── Pack assembly ────────────────────────────────────────────────────────────
+
+function buildCards(
+  packId: string,
+  lang: CardLanguage,
+  color: "b" | "w",
+  sections: CardSection[],
+): Card[] {
+  let index = 0;
+  return sections.flatMap(section =>
+    section.cards.map(text => ({
+      id: `${packId}:${color}${index++}`,
+      text,
+      packId,
+      pick: color === "b" ? countBlanks(text) : 0,
+      lang,
+      tags: [...section.tags],
+    })),
+  );
+}
+
+function buildPack(
+  id: string,
+  lang: CardLanguage,
+  black: CardSection[],
+  white: CardSection[],
+): CardPack {
+  return {
+    id,
+    lang,
+    black: buildCards(id, lang, "b", black),
+    white: buildCards(id, lang, "w", white),
+  };
+}
+
+export const CARD_PACKS: CardPack[] = [
+  buildPack("ua-base",        "uk", [{ tags: [], cards: UA_BASE_BLACK }], UA_BASE_WHITE),
+  buildPack("ua-specifics",   "uk", [],                                   UA_SPECIFICS_WHITE),
+  buildPack("ua-pop-culture", "uk", [],                                   UA_POP_CULTURE_WHITE),
+  buildPack("en-base",        "en", [{ tags: [], cards: EN_BASE_BLACK }], [{ tags: [], cards: EN_BASE_WHITE }]),
+];
+
+/** Ids of every pack in a language — the default selection for a room in that card language. */
+export function getLanguagePacks(lang: CardLanguage): string[] {
+  return CARD_PACKS.filter(p => p.lang === lang).map(p => p.id);
+}
+
+/** Black + white source lists for a room: the union of its selected packs (unknown ids are ignored). */
+export function getCardSources(packIds: string[]): { black: Card[]; white: Card[] } {
+  const packs = CARD_PACKS.filter(p => packIds.includes(p.id));
+  return {
+    black: packs.flatMap(p => p.black),
+    white: packs.flatMap(p => p.white),
+  };
+}
+
 export function shuffleDeck<T>(deck: T[]): T[] {
   const result = [...deck];
   for (let i = result.length - 1; i > 0; i--) {
@@ -765,10 +888,34 @@ export function shuffleDeck<T>(deck: T[]): T[] {
   return result;
 }
 
-export function dealCards(
-  deck: string[],
+/**
+ * Number of white cards a black card asks for — one per `_` blank.
+ * Cards without an explicit blank still take a single answer.
+ */
+export function countBlanks(blackCard: string): number {
+  const blanks = blackCard.split("_").length - 1;
+  return Math.max(1, blanks);
+}
+
+/** Most blanks a player-written prompt may have (Pick 3). */
+export const MAX_BLANKS = 3;
+
+/**
+ * Normalise a player-written black card: runs of underscores ("___") collapse
+ * into a single `_` blank so `countBlanks` sees what the author meant.
+ * Returns null when the prompt has no blanks or more than `MAX_BLANKS`.
+ */
+export function normalizeBlackCard(text: string): string | null {
+  const normalized = text.trim().replace(/\s+/g, " ").replace(/_+/g, "_");
+  const blanks = normalized.split("_").length - 1;
+  if (blanks < 1 || blanks > MAX_BLANKS) return null;
+  return normalized;
+}
+
+export function dealCards<T>(
+  deck: T[],
   count: number,
-): { hand: string[]; remaining: string[] } {
+): { hand: T[]; remaining: T[] } {
   const hand = deck.slice(0, count);
   const remaining = deck.slice(count);
   return { hand, remaining };
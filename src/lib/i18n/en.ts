@@ -21,18 +21,63 @@ export const en: Record<TranslationKey, string> = {
   "home.join":              "Join",
   "home.create":            "Create",
   "home.or":                "or",
+  "home.spectate":          "Just watch (spectator)",
 
   // ── Game settings ────────────────────────────────────────
   "settings.title":              "Game settings",
   "settings.max_rounds":         "Number of rounds",
+  "settings.no_round_limit":     "No round limit",
+  "settings.points_to_win":      "Play to points",
+  "settings.points_to_win.off":  "Off",
+  "settings.sudden_death":       "Sudden death on a tie",
+  "settings.rando":              "Rando Cardrissian (random cards from the deck)",
+  "settings.allow_redraw":       "Rebooting the Universe (1 point for a new hand)",
+  "settings.allow_gambling":     "Gambling (stake 1 point on a second answer)",
+  "settings.judging_mode":       "Who picks the winner",
+  "settings.judging_mode.hetman":    "Card Czar",
+  "settings.judging_mode.ranked":    "Card Czar ranks the top three (3/2/1 points)",
+  "settings.judging_mode.democracy": "Democracy — everyone votes",
+  "settings.rerolls":            "Card Czar may redraw black cards",
+  "settings.rerolls.off":        "No",
+  "settings.reroll_scope":       "Redraw limit applies",
+  "settings.reroll_scope.round": "Per round",
+  "settings.reroll_scope.game":  "Per game",
   "settings.time_limit":         "Submission time limit",
   "settings.time_limit.none":    "No limit",
   "settings.time_limit.30":      "30 seconds",
   "settings.time_limit.60":      "1 minute",
   "settings.time_limit.90":      "1.5 minutes",
   "settings.time_limit.120":     "2 minutes",
-  "settings.rotate_hetman":      "Rotate Card Czar each round",
+  "settings.pick_time_limit":    "Card Czar's time to pick a black card",
+  "settings.judging_time_limit": "Card Czar's time to pick a winner",
+  "settings.voting_time_limit":  "Time to vote for a winner",
+  "settings.hetman_rotation":            "Who becomes Card Czar",
+  "settings.hetman_rotation.sequential": "In turn",
+  "settings.hetman_rotation.random":     "Random (no repeats)",
+  "settings.hetman_rotation.winner":     "Round winner",
+  "settings.hetman_rotation.fixed":      "Always the same",
+  "settings.allow_late_join":    "Allow joining a game in progress",
+  "settings.late_join_catch_up": "Late joiners start on the lowest score",
+  "settings.card_language":      "Card language",
   "settings.allow_custom":       "Allow custom cards",
+  "settings.custom_quota":       "Custom cards per player",
+  "settings.packs":              "Card packs",
+  "settings.packs.count":        "{{black}} black · {{white}} white",
+  "pack.ua-base":                "Base (UA)",
+  "pack.ua-specifics":           "Ukrainian specifics",
+  "pack.ua-pop-culture":         "Pop culture",
+  "pack.en-base":                "Base (EN)",
+  "settings.advanced":           "Advanced",
+  "settings.hand_size":          "Cards in hand",
+  "settings.min_players":        "Players needed to start",
+  "settings.max_players":        "Maximum players",
+  "settings.black_card_choices": "Black cards to choose from",
+  "settings.reveal_delay":       "Winner reveal (seconds)",
+  "settings.advance_delay":      "Pause before next round (seconds)",
+  "settings.inactivity_timeout": "End idle game after (minutes)",
+  "settings.session_limit":      "Game length limit (minutes)",
+  "settings.session_extension":  "Host can extend the game once by (minutes)",
+  "settings.reconnect_grace":    "Replace offline players with a bot after (minutes)",
   "settings.password":           "Room password",
   "settings.password.hint":      "Optional",
 
@@ -44,12 +89,14 @@ export const en: Record<TranslationKey, string> = {
   "lobby.waiting":        "Waiting for players…",
   "lobby.start_game":     "Start game",
   "lobby.add_bot":        "Add bot",
-  "lobby.min_players":    "At least 3 players required",
-  "lobby.max_players":    "Maximum 10 players",
+  "lobby.min_players":    "At least {{n}} players required",
+  "lobby.max_players":    "Maximum {{n}} players",
   "lobby.players":        "Players",
   "lobby.settings":       "Settings",
   "lobby.edit_settings":  "Edit settings",
   "lobby.invite":         "Invite friends",
+  "lobby.spectators":     "Spectators: {{n}}",
+  "lobby.spectating":     "You're spectating — waiting for the game to start…",
 
   // ── Game phases ──────────────────────────────────────────
   "phase.lobby":      "Waiting room",
@@ -57,6 +104,7 @@ export const en: Record<TranslationKey, string> = {
   "phase.hetmanPicking": "Card Czar is picking a black card",
   "phase.submitting": "Submit your answer!",
   "phase.judging":    "Card Czar is choosing",
+  "phase.voting":     "Voting",
   "phase.reveal":     "Reveal",
   "phase.roundEnd":   "End of round",
   "phase.gameOver":   "Game over",
@@ -69,16 +117,50 @@ export const en: Record<TranslationKey, string> = {
   "game.cancel":              "Cancel",
   "game.waiting_others":      "Waiting for other players…",
   "game.waiting_hetman":      "Card Czar is picking a winner…",
+  "game.vote":                "Vote",
+  "game.vote_prompt":         "Vote for the best answer (not your own)",
+  "game.vote_cast":           "Vote counted — waiting for the others…",
+  "game.voted_count":         "{{count}} of {{total}} voted",
+  "game.votes":               "Votes: {{count}}",
+  "game.your_answer":         "Your answer",
+  "game.retract":             "Undo answer",
+  "game.redraw":              "Reboot the Universe (−1 point)",
+  "game.gamble":              "Stake 1 point on a second answer",
+  "game.gamble_pick":         "Pick a second answer — if it wins, you get the point back",
   "game.your_turn":           "Your turn — pick a card",
   "game.you_are_hetman":      "You are the Card Czar! Play a black card.",
   "game.pick_winner":         "Pick the best answer",
+  "game.rank_prompt":         "Rank the best {{n}} answers, starting with first place",
+  "game.place_n":             "Place {{n}}",
   "game.winner_round":        "Round winner",
   "game.points":              "points",
   "game.point":               "point",
   "game.next_round":          "Next round",
   "game.game_over":           "Game over!",
   "game.winner_overall":      "Game winner",
+  "game.winners_tied":        "It's a tie! Game winners",
+  "game.rando_shame":         "You all lost to Rando Cardrissian — random cards off the deck. Shame!",
+  "game.sudden_death":        "Sudden death",
+  "game.sudden_death_watch":  "Sudden death — only the tied players answer",
+  "game.pause":               "Pause",
+  "game.resume":              "Resume",
+  "game.paused":              "Game paused",
+  "game.paused_by_host":      "The host paused the game — hang on",
+  "game.extend_session":      "+{{n}} min",
+  "game.finish_after_round":  "Finish after this round",
+  "game.last_round":          "Last round",
+  "game.idle_title":          "Are you still there?",
+  "game.idle_body":           "Nothing has happened for a while — the game ends in {{n}}s",
+  "game.idle_here":           "I'm here",
+  "game.spectating":          "You're watching the game",
+  "game.late_join_watch":     "You joined mid-round — you'll be dealt in next round",
+  "game.points_to_win":       "to {{n}} points",
+  "game.over.rounds_complete": "All rounds played",
+  "game.over.points_reached": "Someone reached the target score",
+  "game.over.time_limit":     "Session time ran out",
+  "game.over.inactivity":     "Game stopped due to inactivity",
   "game.play_again":          "Play again",
+  "game.waiting_rematch":     "Waiting for the host to start a rematch…",
   "game.submitted_count":     "{{count}} of {{total}} answers submitted",
   "game.time_left":           "{{n}}s left",
   "game.you_submitted":       "You submitted your card",
@@ -91,13 +173,33 @@ export const en: Record<TranslationKey, string> = {
   "game.select_card":           "Select card",
   "game.pick_black_card":        "Pick a black card for this round",
   "game.confirm_black_card":     "Play this card",
+  "game.reroll_black_cards":     "Different cards ({{n}} left)",
   "game.hetman_picking":         "Card Czar is picking a black card…",
+  "game.pick_more":              "Pick {{n}} more (in blank order)",
+
+  // ── Cards ────────────────────────────────────────────────
+  "card.pick_n":       "Pick {{n}}",
+
+  // ── Custom cards ─────────────────────────────────────────
+  "custom.title":          "Custom cards",
+  "custom.write":          "Write a white card",
+  "custom.kind_white":     "White card",
+  "custom.kind_black":     "Black card",
+  "custom.write_black":    "Write a prompt with _ blanks",
+  "custom.placeholder_black": "The worst thing at a wedding is _.",
+  "custom.quota":          "{{count}} of {{total}}",
+  "custom.placeholder":    "Something horribly funny…",
+  "custom.add":            "Add",
+  "custom.remove":         "Remove card",
+  "custom.empty":          "Nobody has written anything yet",
+  "custom.credit":         "✍ written by {{name}}",
 
   // ── Player list ──────────────────────────────────────────
   "player.replace_with_bot":  "Replace with bot",
   "player.kick":              "Remove",
   "player.host":              "Host",
   "player.bot":               "Bot",
+  "player.rando":             "Rando Cardrissian",
   "player.offline":           "Offline",
   "player.you":               "You",
   "player.hetman":            "Card Czar",
@@ -116,18 +218,30 @@ export const en: Record<TranslationKey, string> = {
   "toast.link_copied":         "Link copied to clipboard",
   "toast.settings_updated":    "Settings updated",
   "toast.game_starting":       "Game is starting!",
+  "toast.rematch":             "The host started a rematch — back to the lobby!",
+  "toast.hetman_skipped":      "{{name}} is away — {{next}} picks the black card",
+  "toast.session_warning":     "{{n}} min left in this game",
+  "toast.session_extended":    "The host added {{n}} minutes to the game",
+  "toast.hand_redrawn":        "{{name}} rebooted the Universe: −1 point, fresh hand",
 
   // ── Errors ───────────────────────────────────────────────
   "error.room_not_found":        "Room not found",
   "error.wrong_password":        "Wrong password",
   "error.game_already_started":  "The game has already started",
-  "error.room_full":             "Room is full (max 10 players)",
+  "error.room_full":             "Room is full",
   "error.invalid_token":         "Session invalid — please rejoin",
   "error.not_host":              "Only the host can do that",
   "error.not_hetman":            "Only the Card Czar can pick a winner",
   "error.card_not_in_hand":      "You don't have that card in your hand",
   "error.already_submitted":     "You already submitted a card this round",
   "error.not_enough_players":    "Not enough players (minimum 3 required)",
+  "error.custom_cards_disabled": "Custom cards are disabled in this room",
+  "error.custom_card_limit":     "You have already written the maximum number of cards",
+  "error.invalid_black_card":    "A black card needs 1 to 3 _ blanks",
+  "error.invalid_settings":      "Those settings are out of range",
+  "error.game_paused":           "The game is paused",
+  "error.spectator_read_only":   "Spectators can't play",
+  "error.not_enough_cards":      "The selected packs don't have enough cards for this many players",
   "error.generic":               "Something went wrong. Please try again.",
   "error.name_required":         "Please enter your name",
   "error.code_required":         "Please enter a room code",
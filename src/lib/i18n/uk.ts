@@ -20,18 +20,63 @@ export const uk = {
   "home.join":              "Приєднатися",
   "home.create":            "Створити",
   "home.or":                "або",
+  "home.spectate":          "Лише дивитися (глядач)",
 
   // ── Game settings ────────────────────────────────────────
   "settings.title":              "Налаштування гри",
   "settings.max_rounds":         "Кількість раундів",
+  "settings.no_round_limit":     "Без ліміту раундів",
+  "settings.points_to_win":      "Гра до стількох очок",
+  "settings.points_to_win.off":  "Вимкнено",
+  "settings.sudden_death":       "Раптова смерть при нічиї",
+  "settings.rando":              "Рандо Кардріссіан (випадкові картки з колоди)",
+  "settings.allow_redraw":       "Перезавантаження Всесвіту (1 очко за нову руку)",
+  "settings.allow_gambling":     "Азарт (поставити 1 очко на другу відповідь)",
+  "settings.judging_mode":       "Хто обирає переможця",
+  "settings.judging_mode.hetman":    "Гетьман",
+  "settings.judging_mode.ranked":    "Гетьман розставляє трійку (3/2/1 очки)",
+  "settings.judging_mode.democracy": "Демократія — голосують усі",
+  "settings.rerolls":            "Гетьман може перетягнути чорні картки",
+  "settings.rerolls.off":        "Ні",
+  "settings.reroll_scope":       "Ліміт перетягувань",
+  "settings.reroll_scope.round": "На кожен раунд",
+  "settings.reroll_scope.game":  "На всю гру",
   "settings.time_limit":         "Ліміт часу на хід",
   "settings.time_limit.none":    "Без ліміту",
   "settings.time_limit.30":      "30 секунд",
   "settings.time_limit.60":      "1 хвилина",
   "settings.time_limit.90":      "1,5 хвилини",
   "settings.time_limit.120":     "2 хвилини",
-  "settings.rotate_hetman":      "Змінювати Гетьмана щораунду",
+  "settings.pick_time_limit":    "Час Гетьману на вибір чорної картки",
+  "settings.judging_time_limit": "Час Гетьману на вибір переможця",
+  "settings.voting_time_limit":  "Час на голосування за переможця",
+  "settings.hetman_rotation":            "Хто стає Гетьманом",
+  "settings.hetman_rotation.sequential": "По черзі",
+  "settings.hetman_rotation.random":     "Випадково (без повторів)",
+  "settings.hetman_rotation.winner":     "Переможець раунду",
+  "settings.hetman_rotation.fixed":      "Завжди той самий",
+  "settings.allow_late_join":    "Дозволити приєднання під час гри",
+  "settings.late_join_catch_up": "Новачки починають з найменшим рахунком",
+  "settings.card_language":      "Мова карток",
   "settings.allow_custom":       "Дозволити власні картки",
+  "settings.custom_quota":       "Власних карток на гравця",
+  "settings.packs":              "Набори карток",
+  "settings.packs.count":        "{{black}} чорних · {{white}} білих",
+  "pack.ua-base":                "Базовий (UA)",
+  "pack.ua-specifics":           "Українська специфіка",
+  "pack.ua-pop-culture":         "Поп-культура",
+  "pack.en-base":                "Базовий (EN)",
+  "settings.advanced":           "Додатково",
+  "settings.hand_size":          "Карт у руці",
+  "settings.min_players":        "Гравців для старту",
+  "settings.max_players":        "Максимум гравців",
+  "settings.black_card_choices": "Чорних карт на вибір",
+  "settings.reveal_delay":       "Показ переможця (секунди)",
+  "settings.advance_delay":      "Пауза перед наступним раундом (секунди)",
+  "settings.inactivity_timeout": "Завершити гру без активності через (хвилини)",
+  "settings.session_limit":      "Обмеження тривалості гри (хвилини)",
+  "settings.session_extension":  "Хост може один раз подовжити гру на (хвилини)",
+  "settings.reconnect_grace":    "Замінити гравця офлайн ботом через (хвилини)",
   "settings.password":           "Пароль кімнати",
   "settings.password.hint":      "Необов'язково",
 
@@ -43,12 +88,14 @@ export const uk = {
   "lobby.waiting":        "Очікуємо гравців…",
   "lobby.start_game":     "Почати гру",
   "lobby.add_bot":        "Додати бота",
-  "lobby.min_players":    "Потрібно щонайменше 3 гравці",
-  "lobby.max_players":    "Максимум 10 гравців",
+  "lobby.min_players":    "Потрібно щонайменше {{n}} гравців",
+  "lobby.max_players":    "Максимум {{n}} гравців",
   "lobby.players":        "Гравці",
   "lobby.settings":       "Налаштування",
   "lobby.edit_settings":  "Змінити налаштування",
   "lobby.invite":         "Запросити друзів",
+  "lobby.spectators":     "Глядачів: {{n}}",
+  "lobby.spectating":     "Ви глядач — чекаємо на початок гри…",
 
   // ── Game phases ──────────────────────────────────────────
   "phase.lobby":      "Зала очікування",
@@ -56,6 +103,7 @@ export const uk = {
   "phase.hetmanPicking": "Гетьман обирає чорну картку",
   "phase.submitting": "Відповідайте!",
   "phase.judging":    "Гетьман обирає",
+  "phase.voting":     "Голосування",
   "phase.reveal":     "Розкриття",
   "phase.roundEnd":   "Кінець раунду",
   "phase.gameOver":   "Гра завершена",
@@ -68,16 +116,50 @@ export const uk = {
   "game.cancel":              "Скасувати",
   "game.waiting_others":      "Чекаємо інших гравців…",
   "game.waiting_hetman":      "Гетьман обирає переможця…",
+  "game.vote":                "Проголосувати",
+  "game.vote_prompt":         "Голосуйте за найкращу відповідь (крім своєї)",
+  "game.vote_cast":           "Голос зараховано — чекаємо на інших…",
+  "game.voted_count":         "Проголосували: {{count}} з {{total}}",
+  "game.votes":               "Голосів: {{count}}",
+  "game.your_answer":         "Ваша відповідь",
+  "game.retract":             "Скасувати відповідь",
+  "game.redraw":              "Перезавантажити Всесвіт (−1 очко)",
+  "game.gamble":              "Поставити 1 очко на другу відповідь",
+  "game.gamble_pick":         "Оберіть другу відповідь — якщо вона виграє, очко повернеться",
   "game.your_turn":           "Ваш хід — оберіть картку",
   "game.you_are_hetman":      "Ви — Гетьман! Зіграйте чорну картку.",
   "game.pick_winner":         "Оберіть найкращу відповідь",
+  "game.rank_prompt":         "Розставте {{n}} найкращі відповіді — від першого місця",
+  "game.place_n":             "{{n}} місце",
   "game.winner_round":        "Переможець раунду",
   "game.points":              "очок",
   "game.point":               "очко",
   "game.next_round":          "Наступний раунд",
   "game.game_over":           "Гра завершена!",
   "game.winner_overall":      "Переможець гри",
+  "game.winners_tied":        "Нічия! Переможці гри",
+  "game.rando_shame":         "Вас переміг Рандо Кардріссіан — випадкові картки з колоди. Соромно!",
+  "game.sudden_death":        "Раптова смерть",
+  "game.sudden_death_watch":  "Раптова смерть — відповідають лише гравці з нічиєю",
+  "game.pause":               "Пауза",
+  "game.resume":              "Продовжити",
+  "game.paused":              "Гру призупинено",
+  "game.paused_by_host":      "Хост поставив гру на паузу — зачекайте",
+  "game.extend_session":      "+{{n}} хв",
+  "game.finish_after_round":  "Завершити після цього раунду",
+  "game.last_round":          "Останній раунд",
+  "game.idle_title":          "Ви ще тут?",
+  "game.idle_body":           "Давно нічого не відбувається — гра завершиться за {{n}} с",
+  "game.idle_here":           "Я тут",
+  "game.spectating":          "Ви спостерігаєте за грою",
+  "game.late_join_watch":     "Ви приєдналися посеред раунду — картки роздадуть у наступному",
+  "game.points_to_win":       "до {{n}} очок",
+  "game.over.rounds_complete": "Усі раунди зіграно",
+  "game.over.points_reached": "Хтось набрав потрібну кількість очок",
+  "game.over.time_limit":     "Час сесії вичерпано",
+  "game.over.inactivity":     "Гру зупинено через неактивність",
   "game.play_again":          "Грати знову",
+  "game.waiting_rematch":     "Чекаємо, чи хост запустить реванш…",
   "game.submitted_count":     "{{count}} з {{total}} відповідей надіслано",
   "game.time_left":           "Залишилось {{n}} с",
   "game.you_submitted":       "Ви надіслали картку",
@@ -90,13 +172,33 @@ export const uk = {
   "game.select_card":           "Обрати картку",
   "game.pick_black_card":        "Оберіть чорну картку для цього раунду",
   "game.confirm_black_card":     "Зіграти цю картку",
+  "game.reroll_black_cards":     "Інші картки (залишилось {{n}})",
   "game.hetman_picking":         "Гетьман обирає чорну картку…",
+  "game.pick_more":              "Оберіть ще {{n}} (у порядку пропусків)",
+
+  // ── Cards ────────────────────────────────────────────────
+  "card.pick_n":       "Візьми {{n}}",
+
+  // ── Custom cards ─────────────────────────────────────────
+  "custom.title":          "Власні картки",
+  "custom.write":          "Напишіть білу картку",
+  "custom.kind_white":     "Біла картка",
+  "custom.kind_black":     "Чорна картка",
+  "custom.write_black":    "Напишіть питання з пропусками _",
+  "custom.placeholder_black": "Найгірше на весіллі — це _.",
+  "custom.quota":          "{{count}} з {{total}}",
+  "custom.placeholder":    "Щось жахливо смішне…",
+  "custom.add":            "Додати",
+  "custom.remove":         "Видалити картку",
+  "custom.empty":          "Поки що ніхто нічого не написав",
+  "custom.credit":         "✍ автор: {{name}}",
 
   // ── Player list ──────────────────────────────────────────
   "player.replace_with_bot":  "Замінити ботом",
   "player.kick":              "Видалити",
   "player.host":              "Хост",
   "player.bot":               "Бот",
+  "player.rando":             "Рандо Кардріссіан",
   "player.offline":           "Офлайн",
   "player.you":               "Ви",
   "player.hetman":            "Гетьман",
@@ -115,18 +217,30 @@ export const uk = {
   "toast.link_copied":         "Посилання скопійовано",
   "toast.settings_updated":    "Налаштування оновлено",
   "toast.game_starting":       "Гра починається!",
+  "toast.rematch":             "Хост запустив реванш — повертаємось до зали!",
+  "toast.hetman_skipped":      "{{name}} не на зв'язку — чорну картку обирає {{next}}",
+  "toast.session_warning":     "До кінця гри {{n}} хв",
+  "toast.session_extended":    "Хост додав до гри {{n}} хв",
+  "toast.hand_redrawn":        "{{name}} перезавантажує Всесвіт: −1 очко, нова рука",
 
   // ── Errors ───────────────────────────────────────────────
   "error.room_not_found":        "Кімнату не знайдено",
   "error.wrong_password":        "Невірний пароль",
   "error.game_already_started":  "Гра вже розпочалась",
-  "error.room_full":             "Кімната заповнена (максимум 10 гравців)",
+  "error.room_full":             "Кімната заповнена",
   "error.invalid_token":         "Сесія недійсна — спробуйте знову",
   "error.not_host":              "Тільки хост може це зробити",
   "error.not_hetman":            "Тільки Гетьман може обирати переможця",
   "error.card_not_in_hand":      "Цієї картки немає у вас в руці",
   "error.already_submitted":     "Ви вже надіслали картку цього раунду",
   "error.not_enough_players":    "Недостатньо гравців (потрібно щонайменше 3)",
+  "error.custom_cards_disabled": "Власні картки вимкнені в цій кімнаті",
+  "error.custom_card_limit":     "Ви вже написали максимум карток",
+  "error.invalid_black_card":    "Чорна картка має містити від 1 до 3 пропусків _",
+  "error.invalid_settings":      "Налаштування поза допустимими межами",
+  "error.game_paused":           "Гра на паузі",
+  "error.spectator_read_only":   "Глядачі не можуть грати",
+  "error.not_enough_cards":      "У вибраних наборах замало карток для стількох гравців",
   "error.generic":               "Щось пішло не так. Спробуйте ще раз.",
   "error.name_required":         "Будь ласка, введіть своє ім'я",
   "error.code_required":         "Будь ласка, введіть код кімнати",
@@ -10,10 +10,30 @@ export type GamePhase =
   | "hetmanPicking"
   | "submitting"
   | "judging"
+  | "voting"
   | "reveal"
   | "roundEnd"
   | "gameOver";
 
+// --------------- Cards -----------------------
+
+/** Language of the card decks a room plays with (independent of the UI language). */
+export type CardLanguage = "uk" | "en";
+
+/** A single black or white card. Ids are stable across restarts (see lib/cards.ts). */
+export interface Card {
+  id: string;
+  text: string;
+  /** Pack the card belongs to, e.g. "ua-base"; "custom" for player-written cards. */
+  packId: string;
+  /** White cards a black card asks for (its `_` blank count); 0 for white cards. */
+  pick: number;
+  lang: CardLanguage;
+  tags: string[];
+  /** Set on player-written cards so the reveal can credit the author. */
+  authorName?: string;
+}
+
 // --------------- Player ----------------------
 
 /** Full player record — kept server-side; `token` is never broadcast to other clients. */
@@ -25,7 +45,19 @@ export interface Player {
   isConnected: boolean;
   isHost: boolean;
   points: number;
-  hand: string[];      // white card texts (private, not broadcast to others)
+  hand: Card[];        // white cards (private, not broadcast to others)
+}
+
+/**
+ * Someone watching the table. Spectators hold no cards, never judge and don't
+ * count towards the player cap or the minimum to start.
+ */
+export interface Spectator {
+  id: string;          // UUID
+  token: string;       // reconnect secret (server → owning client only)
+  name: string;
+  isConnected: boolean;
+  lastSeenAt: number;  // join or disconnect time — stale offline entries are pruned
 }
 
 /** Safe player shape sent to other clients — no token, no hand. */
@@ -42,36 +74,152 @@ export interface PublicPlayer {
 
 // --------------- Game settings ---------------
 
+/**
+ * Who decides the round winner: the Hetman alone, the Hetman ranking the top three
+ * ("ranked" — 3/2/1 points), or everyone by vote ("democracy" — the Hetman only
+ * picks the prompt and plays like everybody else).
+ */
+export type JudgingMode = "hetman" | "ranked" | "democracy";
+
+/**
+ * How the Hetman seat moves between rounds: to the next seat, to a random player
+ * who hasn't judged yet this cycle, to the last round's winner, or never.
+ */
+export type HetmanRotation = "sequential" | "random" | "winner" | "fixed";
+
+/** Whether the Hetman's black-card reroll allowance refills every round or once per game. */
+export type RerollScope = "round" | "game";
+
 export interface GameSettings {
-  maxRounds: number;                    // default: 10
+  maxRounds: number | null;             // default: 10; null = no round cap (needs pointsToWin)
+  pointsToWin: number | null;           // null = off; game ends as soon as someone reaches it
+  suddenDeath: boolean;                 // default: false — break a final tie with extra rounds
+  judgingMode: JudgingMode;             // default: "hetman"
+  rando: boolean;                       // default: false — Rando Cardrissian plays a random card each round
+  allowRedraw: boolean;                 // default: false — "Rebooting the Universe": 1 point for a fresh hand
+  allowGambling: boolean;               // default: false — stake 1 point on a second answer
+  blackCardRerolls: number;             // default: 0 = off — times the Hetman may redraw the black-card choices
+  blackCardRerollScope: RerollScope;    // default: "round" — whether that allowance is per round or per game
+  allowLateJoin: boolean;               // default: false — players may join a game in progress
+  lateJoinCatchUp: boolean;             // default: false — late joiners start on the lowest score instead of 0
   submissionTimeLimitSec: number | null; // null = no limit
-  allowCustomCards: boolean;            // reserved for future
-  rotateHetman: boolean;                // default: true
+  hetmanPickTimeLimitSec: number | null; // null = no limit — then a random black card is played
+  judgingTimeLimitSec: number | null;   // null = no limit — on expiry a random winner (ranking) is picked, or the votes so far decide
+  allowCustomCards: boolean;            // players may write their own white cards in the lobby
+  customCardsPerPlayer: number;         // default: 3 — per-player quota when custom cards are on
+  hetmanRotation: HetmanRotation;       // default: "sequential"
+  cardLanguage: CardLanguage;           // default: "uk"
+  packs: string[];                      // CardPack ids; default: every pack in `cardLanguage`
   password: string | null;
+  // Advanced pacing — bounds in SETTING_BOUNDS, enforced by the server
+  handSize: number;                     // default: 10 — white cards each player holds
+  minPlayers: number;                   // default: 3 — players needed to start
+  maxPlayers: number;                   // default: 10 — seats in the room (bots included)
+  blackCardChoices: number;             // default: 4 — black cards the Hetman picks from
+  revealDelaySec: number;               // default: 5 — winner reveal before the round ends
+  advanceDelaySec: number;              // default: 3 — round-end scores before the next deal
+  inactivityTimeoutMin: number;         // default: 15 — game ends after this long with no messages
+  sessionLimitMin: number;              // default: 60 — hard cap on one game
+  sessionExtensionMin: number;          // default: 15 — how much the host's one extension adds
+  reconnectGraceMin: number;            // default: 5 — offline players are replaced by a bot after this
 }
 
+/** Numeric settings tuned in the "advanced" section of the settings panel. */
+export type AdvancedSettingKey =
+  | "handSize"
+  | "minPlayers"
+  | "maxPlayers"
+  | "blackCardChoices"
+  | "revealDelaySec"
+  | "advanceDelaySec"
+  | "inactivityTimeoutMin"
+  | "sessionLimitMin"
+  | "sessionExtensionMin"
+  | "reconnectGraceMin";
+
+/** Inclusive [min, max] the server accepts for each advanced setting. */
+export const SETTING_BOUNDS: Record<AdvancedSettingKey, readonly [number, number]> = {
+  handSize:             [5, 15],
+  minPlayers:           [3, 20],
+  maxPlayers:           [3, 20],
+  blackCardChoices:     [1, 8],
+  revealDelaySec:       [1, 30],
+  advanceDelaySec:      [0, 30],
+  inactivityTimeoutMin: [5, 60],
+  sessionLimitMin:      [15, 240],
+  sessionExtensionMin:  [5, 60],
+  reconnectGraceMin:    [1, 30],
+};
+
+/**
+ * `playerId` of Rando Cardrissian — a phantom submitter that plays a random card
+ * each round. It is never seated in `room.players`; its score lives in `room.randoPoints`.
+ */
+export const RANDO_ID = "rando";
+
 export const DEFAULT_GAME_SETTINGS: GameSettings = {
   maxRounds: 10,
+  pointsToWin: null,
+  suddenDeath: false,
+  judgingMode: "hetman",
+  rando: false,
+  allowRedraw: false,
+  allowGambling: false,
+  blackCardRerolls: 0,
+  blackCardRerollScope: "round",
+  allowLateJoin: false,
+  lateJoinCatchUp: false,
   submissionTimeLimitSec: null,
+  hetmanPickTimeLimitSec: null,
+  judgingTimeLimitSec: null,
   allowCustomCards: false,
-  rotateHetman: true,
+  customCardsPerPlayer: 3,
+  hetmanRotation: "sequential",
+  cardLanguage: "uk",
+  packs: ["ua-base", "ua-specifics", "ua-pop-culture"],
   password: null,
+  handSize: 10,
+  minPlayers: 3,
+  maxPlayers: 10,
+  blackCardChoices: 4,
+  revealDelaySec: 5,
+  advanceDelaySec: 3,
+  inactivityTimeoutMin: 15,
+  sessionLimitMin: 60,
+  sessionExtensionMin: 15,
+  reconnectGraceMin: 5,
 };
 
+// --------------- Custom cards ----------------
+
+export type CustomCardKind = "white" | "black";
+
+/** A card written by a player in the lobby (when `allowCustomCards` is on). */
+export interface CustomCard extends Card {
+  authorId: string;
+  /** Kept separately so the credit survives the author being replaced by a bot. */
+  authorName: string;
+}
+
 // --------------- Submission ------------------
 
 export interface Submission {
   /** Opaque id shown to the Hetman during judging — does not reveal playerId. */
   anonymousId: string;
+  /** Seated player's id, or `RANDO_ID` for the phantom player. */
   playerId: string;
-  card: string;
-  isWinner: boolean;
+  /** White cards in blank order — length equals the black card's `pick`. */
+  cards: Card[];
+  /** 1 for the round winner; 2 and 3 for the runners-up in ranked judging; null if unplaced. */
+  placement: number | null;
+  /** Gambling house rule: a second answer with one point staked on it. */
+  isWager: boolean;
 }
 
 /** Submission shape visible to all players during judging (no playerId). */
 export interface AnonymousSubmission {
   id: string;   // opaque round-scoped id used by Hetman to pick winner
-  card: string;
+  cards: Card[];
 }
 
 // --------------- Score -----------------------
@@ -84,25 +232,65 @@ export interface Score {
 
 // --------------- Room ------------------------
 
+/** A scheduled room timer: when it fires and what it runs. Kept so a pause can re-arm it later. */
+export interface TimerTask {
+  dueAt: number;  // Unix ms (while paused: relative to `Room.pausedAt`)
+  run: () => void;
+}
+
 export interface Room {
   id: string;           // 6-char uppercase code, e.g. "ABCD12"
   hostId: string;
   players: Player[];
+  spectators: Spectator[];
   phase: GamePhase;
   settings: GameSettings;
   currentRound: number;
   hetmanId: string | null;
-  currentBlackCard: string | null;
+  currentBlackCard: Card | null;
   submissions: Submission[];
-  blackCardChoices: string[];  // 4 black cards for hetman to pick from
-  blackDeck: string[];   // remaining cards
-  whiteDeck: string[];   // remaining cards
+  /** Sudden death: only these tied players submit. Null outside a tie-break round. */
+  tieBreakPlayerIds: string[] | null;
+  /** Democracy mode: voter playerId → anonymousId of the submission they voted for. */
+  votes: Record<string, string>;
+  /** Rando Cardrissian's score (only meaningful when `settings.rando` is on). */
+  randoPoints: number;
+  /** "random" rotation: players who have already been Hetman in the current cycle. */
+  recentHetmanIds: string[];
+  /** Players who joined mid-round; they sit it out and are dealt in on the next `dealRound`. */
+  lateJoinerIds: string[];
+  blackCardChoices: Card[];  // 4 black cards for hetman to pick from
+  /** Black-card rerolls spent this round or this game (see `settings.blackCardRerollScope`). */
+  blackCardRerollsUsed: number;
+  blackDeck: Card[];   // remaining cards
+  whiteDeck: Card[];   // remaining cards
+  /** Played / passed-over cards; shuffled back in only when the matching deck runs dry. */
+  blackDiscard: Card[];
+  whiteDiscard: Card[];
+  /** Player-written white cards collected in the lobby; mixed into whiteDeck at startGame. */
+  customWhiteCards: CustomCard[];
+  /** Player-written prompts (validated to contain `_` blanks); mixed into blackDeck at startGame. */
+  customBlackCards: CustomCard[];
   createdAt: number;     // Unix ms
   lastActivityAt: number;
   /** Unix ms timestamp when the submission phase ends (null if no time limit). */
   submissionDeadline: number | null;
+  /** Unix ms timestamp when the Hetman's black-card pick, judging or the democracy vote is forced (null if no time limit). */
+  hetmanDeadline: number | null;
   /** Active timer ids keyed by purpose, e.g. "submission" | "inactivity" | "session" | "reconnect:{playerId}" */
   timers: Record<string, ReturnType<typeof setTimeout>>;
+  /** Every pending timer (running or frozen by a pause), same keys as `timers`. */
+  timerTasks: Record<string, TimerTask>;
+  /** Unix ms when the host paused the game; null while it runs. */
+  pausedAt: number | null;
+  /** Unix ms when the session limit ends the game; null outside a game or once the host chose to finish after the round. */
+  sessionDeadline: number | null;
+  /** The host has used their one session extension. */
+  sessionExtended: boolean;
+  /** The host chose to end the game when the current round finishes instead of at the session limit. */
+  finishAfterRound: boolean;
+  /** An inactivity warning went out and nobody has answered it yet. */
+  inactivityWarned: boolean;
   /**
    * Called by engine.ts after hetman picks a black card and phase transitions to "submitting".
    * Handler.ts sets this once to schedule bot submission turns.
@@ -113,6 +301,11 @@ export interface Room {
    * Handler.ts sets this once to schedule the bot hetman turn.
    */
   onJudgingStart?: (room: Room) => void;
+  /**
+   * Called by engine.ts whenever the phase transitions to "voting" (democracy mode).
+   * Handler.ts sets this once to schedule bot votes.
+   */
+  onVotingStart?: (room: Room) => void;
   /**
    * Called by engine.ts when phase is "hetmanPicking" and hetman is a bot.
    * Handler.ts sets this once to schedule bot black card pick.
@@ -125,17 +318,40 @@ export interface PublicRoom {
   id: string;
   hostId: string;
   players: PublicPlayer[];
+  /** Connected spectators (names stay private). */
+  spectatorCount: number;
   phase: GamePhase;
   settings: Omit<GameSettings, "password"> & { hasPassword: boolean };
   currentRound: number;
   hetmanId: string | null;
-  currentBlackCard: string | null;
+  currentBlackCard: Card | null;
+  tieBreakPlayerIds: string[] | null;
+  /** Players who joined mid-round and sit it out until the next deal. */
+  lateJoinerIds: string[];
+  /** Democracy mode: ids of players who already voted (never who they voted for). */
+  votedPlayerIds: string[];
+  /** Rando Cardrissian as a score-list entry, named in the room's card language; null when the house rule is off. */
+  rando: PublicPlayer | null;
+  /** Black-card rerolls the Hetman has left (this round or this game). */
+  blackCardRerollsLeft: number;
   /** Anonymous submissions visible during judging/reveal. */
   submissions: AnonymousSubmission[];
   /** Full submissions (with playerId) visible after Hetman picks winner. */
   revealedSubmissions: Submission[];
   /** Unix ms timestamp when the submission phase ends (null if no time limit). */
   submissionDeadline: number | null;
+  /** Unix ms timestamp when the Hetman's black-card pick, judging or the democracy vote is forced (null if no time limit). */
+  hetmanDeadline: number | null;
+  /** True while the host has the game paused — timers are frozen and game actions blocked. */
+  paused: boolean;
+  /** Unix ms when the session limit ends the game (null if it won't). */
+  sessionDeadline: number | null;
+  sessionExtended: boolean;
+  /** The game ends after the current round. */
+  finishAfterRound: boolean;
+  /** Player-written cards — only exposed in the lobby so authorship stays hidden during play. */
+  customWhiteCards: CustomCard[];
+  customBlackCards: CustomCard[];
 }
 
 // --------------- WebSocket payloads ----------
@@ -143,26 +359,29 @@ export interface PublicRoom {
 /** Sent to the connecting client only on WS open. Contains private data. */
 export interface ConnectPayload {
   room: PublicRoom;
-  myPlayer: Omit<Player, "token">;
-  myHand: string[];
+  /** Null for spectators. */
+  myPlayer: Omit<Player, "token"> | null;
+  myHand: Card[];
+  /** True when this socket belongs to a spectator. */
+  spectator?: boolean;
 }
 
 export interface RoundStartPayload {
-  blackCard: string | null;
+  blackCard: Card | null;
   hetmanId: string;
   round: number;
 }
 
 export interface BlackCardChoicesPayload {
-  choices: string[];
+  choices: Card[];
 }
 
 export interface BlackCardPickedPayload {
-  blackCard: string;
+  blackCard: Card;
 }
 
 export interface CardsDealtPayload {
-  hand: string[];
+  hand: Card[];
 }
 
 export interface SubmissionReceivedPayload {
@@ -174,17 +393,47 @@ export interface AllSubmittedPayload {
 }
 
 export interface WinnerSelectedPayload {
+  /** The winning (1st place) submission. */
   submission: Submission;
   playerName: string;
+  /** Every placed submission in podium order — just the winner outside ranked judging. */
+  ranking: Submission[];
+  /** Democracy mode: vote count per submission anonymousId. Null when the Hetman judged. */
+  votes: Record<string, number> | null;
+}
+
+/** Broadcast when a player spends a point on a fresh hand ("Rebooting the Universe"). */
+export interface HandRedrawnPayload {
+  playerId: string;
+  playerName: string;
+}
+
+/**
+ * Sent privately to the author when an answer is accepted, so they can take it back
+ * while others are still submitting and recognise it among the anonymous cards later.
+ */
+export interface YourSubmissionPayload {
+  submissionId: string;
+  cards: Card[];
+}
+
+/** Sent privately to the author when they take an answer back. */
+export interface SubmissionRetractedPayload {
+  submissionId: string;
 }
 
 export interface RoundEndPayload {
   scores: Score[];
 }
 
+/** Which condition ended the game. */
+export type GameOverReason = "rounds_complete" | "points_reached" | "time_limit" | "inactivity";
+
 export interface GameOverPayload {
-  winner: PublicPlayer;
+  /** Everyone sharing the top score — more than one on a tie. */
+  winners: PublicPlayer[];
   scores: Score[];
+  reason: GameOverReason;
 }
 
 export interface PlayerJoinedPayload {
@@ -227,6 +476,13 @@ export type ErrorCode =
   | "CARD_NOT_IN_HAND"
   | "ALREADY_SUBMITTED"
   | "NOT_ENOUGH_PLAYERS"
+  | "CUSTOM_CARDS_DISABLED"
+  | "CUSTOM_CARD_LIMIT"
+  | "INVALID_BLACK_CARD"
+  | "NOT_ENOUGH_CARDS"
+  | "SPECTATOR_READ_ONLY"
+  | "GAME_PAUSED"
+  | "INVALID_SETTINGS"
   | "INVALID_PAYLOAD";
 
 // --------------- Connection state ------------
@@ -6,15 +6,29 @@
  * from here, avoiding circular dependencies.
  */
 import type { Room } from "../../lib/types";
-import { submitCard, selectWinner, pickBlackCard } from "./engine";
+import {
+  submitCard,
+  selectWinner,
+  castVote,
+  pickBlackCard,
+  rerollBlackCards,
+  getSubmitters,
+  getVoters,
+  RANKED_POINTS,
+} from "./engine";
+import { scheduleTimer, hasTimer } from "./timers";
+import { shuffleDeck } from "../../lib/cards";
 
 // How long bots "think" before acting
 const BOT_SUBMIT_MIN_MS  = 3_000;
 const BOT_SUBMIT_MAX_MS  = 8_000;
 const BOT_JUDGE_MIN_MS   = 5_000;
 const BOT_JUDGE_MAX_MS   = 10_000;
+const BOT_VOTE_MIN_MS    = 3_000;
+const BOT_VOTE_MAX_MS    = 8_000;
 const BOT_PICK_MIN_MS    = 2_000;
 const BOT_PICK_MAX_MS    = 5_000;
+const BOT_REROLL_CHANCE  = 0.2;   // how often a bot hetman dislikes every black card on offer
 
 function randomDelay(min: number, max: number): number {
   return Math.floor(Math.random() * (max - min + 1)) + min;
@@ -33,9 +47,7 @@ function randomItem<T>(arr: T[]): T | undefined {
 export function scheduleBotTurn(room: Room, botId: string): void {
   const delay = randomDelay(BOT_SUBMIT_MIN_MS, BOT_SUBMIT_MAX_MS);
 
-  room.timers[`bot_submit:${botId}`] = setTimeout(() => {
-    delete room.timers[`bot_submit:${botId}`];
-
+  scheduleTimer(room, `bot_submit:${botId}`, delay, () => {
     if (room.phase !== "submitting") return;
     // Already submitted?
     if (room.submissions.some(s => s.playerId === botId)) return;
@@ -43,45 +55,77 @@ export function scheduleBotTurn(room: Room, botId: string): void {
     const bot = room.players.find(p => p.id === botId);
     if (!bot || !bot.isBot) return;
 
-    const card = randomItem(bot.hand);
-    if (!card) return;
+    const pick = room.currentBlackCard?.pick ?? 1;
+    if (bot.hand.length < pick) return;
+    const cards = shuffleDeck(bot.hand).slice(0, pick);
 
     try {
-      submitCard(room, botId, card);
+      submitCard(room, botId, cards.map(c => c.id));
       // engine.ts calls room.onJudgingStart when all submissions are in,
       // which schedules the bot hetman turn — no need to do it here.
     } catch {
       // Silently ignore — e.g. phase already changed
     }
-  }, delay);
+  });
 }
 
 /**
- * Schedule the bot Hetman to pick a random winner.
+ * Schedule the bot Hetman to pick a random winner (in ranked judging, a random top three).
  * Must be called after the judging phase begins.
  * Safe to call multiple times — only schedules once per round.
  */
 export function scheduleBotHetmanTurn(room: Room, botId: string): void {
   // Already scheduled this round — don't reset the delay.
-  if (room.timers[`bot_judge:${botId}`] !== undefined) return;
+  if (hasTimer(room, `bot_judge:${botId}`)) return;
 
   const delay = randomDelay(BOT_JUDGE_MIN_MS, BOT_JUDGE_MAX_MS);
 
-  room.timers[`bot_judge:${botId}`] = setTimeout(() => {
-    delete room.timers[`bot_judge:${botId}`];
-
+  scheduleTimer(room, `bot_judge:${botId}`, delay, () => {
     if (room.phase !== "judging") return;
     if (room.hetmanId !== botId) return;
 
-    const submission = randomItem(room.submissions);
+    if (room.submissions.length === 0) return;
+    const places = room.settings.judgingMode === "ranked" ? RANKED_POINTS.length : 1;
+    const ranking = shuffleDeck(room.submissions).slice(0, places).map(s => s.anonymousId);
+
+    try {
+      selectWinner(room, botId, ranking);
+    } catch {
+      // Silently ignore
+    }
+  });
+}
+
+/**
+ * Democracy mode: schedule a bot to vote for a random submission that isn't its own.
+ * Safe to call multiple times — only schedules once per round.
+ */
+export function scheduleBotVote(room: Room, botId: string): void {
+  if (hasTimer(room, `bot_vote:${botId}`)) return;
+
+  const delay = randomDelay(BOT_VOTE_MIN_MS, BOT_VOTE_MAX_MS);
+
+  scheduleTimer(room, `bot_vote:${botId}`, delay, () => {
+    if (room.phase !== "voting") return;
+    if (room.votes[botId] !== undefined) return;
+
+    const submission = randomItem(room.submissions.filter(s => s.playerId !== botId));
     if (!submission) return;
 
     try {
-      selectWinner(room, botId, submission.anonymousId);
+      castVote(room, botId, submission.anonymousId);
     } catch {
       // Silently ignore
     }
-  }, delay);
+  });
+}
+
+/** Schedule every bot voter (called via room.onVotingStart). */
+export function scheduleBotVotes(room: Room): void {
+  for (const playerId of getVoters(room)) {
+    const player = room.players.find(p => p.id === playerId);
+    if (player?.isBot) scheduleBotVote(room, player.id);
+  }
 }
 
 /**
@@ -89,37 +133,69 @@ export function scheduleBotHetmanTurn(room: Room, botId: string): void {
  * The bot hetman's judging turn is scheduled separately via room.onJudgingStart.
  */
 export function scheduleBotActionsAfterDeal(room: Room): void {
-  for (const player of room.players) {
-    if (!player.isBot) continue;
-    if (player.id === room.hetmanId) continue; // hetman doesn't submit
+  // Hetman (and, in sudden death, anyone outside the tie) doesn't submit
+  for (const playerId of getSubmitters(room)) {
+    const player = room.players.find(p => p.id === playerId);
+    if (!player?.isBot) continue;
     scheduleBotTurn(room, player.id);
   }
 }
 
+/**
+ * A bot just took over a seat mid-round (reconnect timeout or host removal):
+ * give it whatever turn the current phase still owes that seat.
+ */
+export function scheduleBotForCurrentPhase(room: Room, botId: string): void {
+  switch (room.phase) {
+    case "hetmanPicking":
+      if (room.hetmanId === botId) scheduleBotBlackCardPick(room, botId);
+      break;
+    case "submitting":
+      if (getSubmitters(room).includes(botId)) scheduleBotTurn(room, botId);
+      break;
+    case "judging":
+      if (room.hetmanId === botId) scheduleBotHetmanTurn(room, botId);
+      break;
+    case "voting":
+      if (getVoters(room).includes(botId) && room.votes[botId] === undefined) scheduleBotVote(room, botId);
+      break;
+  }
+}
+
 /**
  * Schedule the bot Hetman to pick a random black card from the offered choices.
+ * Now and then (while rerolls are left) it rejects them all and looks again.
  * Called via room.onHetmanPick when the hetman is a bot.
  */
 export function scheduleBotBlackCardPick(room: Room, botId: string): void {
   // Already scheduled — don't reset.
-  if (room.timers[`bot_pick:${botId}`] !== undefined) return;
+  if (hasTimer(room, `bot_pick:${botId}`)) return;
 
   const delay = randomDelay(BOT_PICK_MIN_MS, BOT_PICK_MAX_MS);
 
-  room.timers[`bot_pick:${botId}`] = setTimeout(() => {
-    delete room.timers[`bot_pick:${botId}`];
-
+  scheduleTimer(room, `bot_pick:${botId}`, delay, () => {
     if (room.phase !== "hetmanPicking") return;
     if (room.hetmanId !== botId) return;
     if (room.blackCardChoices.length === 0) return;
 
+    const canReroll = room.blackCardRerollsUsed < room.settings.blackCardRerolls;
+    if (canReroll && Math.random() < BOT_REROLL_CHANCE) {
+      try {
+        rerollBlackCards(room, botId);
+        scheduleBotBlackCardPick(room, botId);
+        return;
+      } catch {
+        // Fall through and pick from what's on offer
+      }
+    }
+
     const card = randomItem(room.blackCardChoices);
     if (!card) return;
 
     try {
-      pickBlackCard(room, botId, card);
+      pickBlackCard(room, botId, card.id);
     } catch {
       // Silently ignore
     }
-  }, delay);
+  });
 }
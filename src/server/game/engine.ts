@@ -6,47 +6,274 @@
  * after state transitions so that this module has no circular dependencies.
  */
 import { randomUUID } from "crypto";
-import type { Room, Score } from "../../lib/types";
-import { blackCards as allBlackCards, whiteCards as allWhiteCards, shuffleDeck } from "../../lib/cards";
+import type { Room, Player, Submission, Score, Card, CustomCard, GameOverReason } from "../../lib/types";
+import { RANDO_ID } from "../../lib/types";
+import { getCardSources, shuffleDeck } from "../../lib/cards";
 import { broadcast, sendToPlayer } from "../ws/broadcast";
 import { SERVER_EVENTS } from "../ws/events";
 import {
   getPublicRoom,
   getPublicPlayer,
+  toAnonymousSubmission,
+  getRandoPlayer,
   rooms,
+  RoomError,
 } from "./room";
 import {
   startSessionTimer,
+  cancelSessionTimer,
   resetInactivityTimer,
   startSubmissionTimer,
   cancelSubmissionTimer,
+  startHetmanGraceTimer,
+  cancelHetmanGraceTimer,
+  startHetmanTurnTimer,
+  cancelHetmanTurnTimer,
   clearAllTimers,
+  scheduleTimer,
+  pauseTimers,
+  resumeTimers,
 } from "./timers";
 
-const HAND_SIZE         = 10;
-const MIN_PLAYERS       = 3;
-const BLACK_CARD_CHOICES = 4;     // how many black cards the hetman picks from
-const REVEAL_DELAY_MS   = 5_000;   // seconds before round_end is sent after winner
-const ADVANCE_DELAY_MS  = 3_000;   // seconds after round_end before next deal
+export const RANKED_POINTS: readonly number[] = [3, 2, 1]; // ranked judging: points for 1st / 2nd / 3rd place
 const ROOM_LINGER_MS    = 60_000;  // clean up finished rooms after 1 minute
 
 // ── Internal helpers ───────────────────────────────────────────────────────────
 
 function computeScores(room: Room): Score[] {
+  const scores = room.players.map(p => ({ playerId: p.id, playerName: p.name, points: p.points }));
+  if (room.settings.rando) {
+    const rando = getRandoPlayer(room);
+    scores.push({ playerId: rando.id, playerName: rando.name, points: rando.points });
+  }
+  return scores.sort((a, b) => b.points - a.points);
+}
+
+/**
+ * Ids of players expected to submit this round: everyone but the hetman
+ * (the hetman plays too in democracy mode; only the tied players in sudden death).
+ * Players who joined mid-round sit it out.
+ */
+export function getSubmitters(room: Room): string[] {
+  const tieBreak = room.tieBreakPlayerIds;
+  const hetmanJudges = room.settings.judgingMode !== "democracy";
   return room.players
-    .map(p => ({ playerId: p.id, playerName: p.name, points: p.points }))
-    .sort((a, b) => b.points - a.points);
+    .filter(p => !(hetmanJudges && p.id === room.hetmanId) && (!tieBreak || tieBreak.includes(p.id)))
+    .filter(p => !room.lateJoinerIds.includes(p.id))
+    .map(p => p.id);
 }
 
-function getSubmitters(room: Room): string[] {
+/**
+ * Ids of players expected to vote: everyone with at least one submission that
+ * isn't their own, except players who joined mid-round.
+ */
+export function getVoters(room: Room): string[] {
   return room.players
-    .filter(p => p.id !== room.hetmanId)
+    .filter(p => !room.lateJoinerIds.includes(p.id) && room.submissions.some(s => s.playerId !== p.id))
     .map(p => p.id);
 }
 
-function refillDeck<T>(deck: T[], source: T[]): T[] {
-  if (deck.length === 0) return shuffleDeck([...source]);
-  return deck;
+/** How many expected submitters have answered — players, not submissions: a gambler has two, Rando isn't seated. */
+function countSubmitted(room: Room): number {
+  return getSubmitters(room).filter(id => room.submissions.some(s => s.playerId === id)).length;
+}
+
+/** Ids of everyone sharing the highest score — Rando included when the house rule is on. */
+function getTopScorerIds(room: Room): string[] {
+  const scores = computeScores(room);
+  const topScore = scores[0]?.points ?? 0;
+  return scores.filter(s => s.points === topScore).map(s => s.playerId);
+}
+
+/** Rando Cardrissian plays random cards straight off the deck once the prompt is known. */
+function submitRandoCards(room: Room): void {
+  if (!room.settings.rando) return;
+  if (room.tieBreakPlayerIds && !room.tieBreakPlayerIds.includes(RANDO_ID)) return;
+
+  const cards = drawCards(room.whiteDeck, room.whiteDiscard, getPickCount(room));
+  if (cards.length < getPickCount(room)) {
+    room.whiteDiscard.push(...cards);
+    return;
+  }
+  room.submissions.push({
+    anonymousId: randomUUID(),
+    playerId: RANDO_ID,
+    cards,
+    placement: null,
+    isWager: false,
+  });
+}
+
+/**
+ * When the deck ran dry at the deal, a submitter can hold fewer cards than the
+ * prompt needs and the round would never fill up: top their hand up from the
+ * deck (reshuffling the discard pile) before anyone plays.
+ */
+function topUpShortHands(room: Room): void {
+  const pick = getPickCount(room);
+  for (const playerId of getSubmitters(room)) {
+    const player = room.players.find(p => p.id === playerId);
+    if (!player || player.hand.length >= pick) continue;
+    player.hand.push(...drawCards(room.whiteDeck, room.whiteDiscard, pick - player.hand.length));
+    sendToPlayer(player.id, SERVER_EVENTS.CARDS_DEALT, { hand: player.hand });
+  }
+}
+
+/** How many white cards each player must play for the current black card. */
+function getPickCount(room: Room): number {
+  return room.currentBlackCard?.pick ?? 1;
+}
+
+/** Deck copy of a player-written card — keeps the author's name for the reveal credit, drops their id. */
+function fromCustomCard({ authorId: _authorId, ...card }: CustomCard): Card {
+  return card;
+}
+
+/** White card source for a room: the language deck plus player-written cards (if enabled). */
+function getWhiteSource(room: Room): Card[] {
+  const { white } = getCardSources(room.settings.packs);
+  if (!room.settings.allowCustomCards) return white;
+  return [...white, ...room.customWhiteCards.map(fromCustomCard)];
+}
+
+/** Black card source for a room: the language deck plus player-written prompts (if enabled). */
+function getBlackSource(room: Room): Card[] {
+  const { black } = getCardSources(room.settings.packs);
+  if (!room.settings.allowCustomCards) return black;
+  return [...black, ...room.customBlackCards.map(fromCustomCard)];
+}
+
+/**
+ * Take `count` cards off the top of `deck` (both arrays are mutated in place).
+ * When the deck runs dry the discard pile is shuffled in — never the full source,
+ * so a card held in a hand or lying on the table can't be dealt a second time.
+ */
+function drawCards(deck: Card[], discard: Card[], count: number): Card[] {
+  const drawn = deck.splice(0, count);
+  if (drawn.length < count && discard.length > 0) {
+    deck.push(...shuffleDeck(discard.splice(0)));
+    drawn.push(...deck.splice(0, count - drawn.length));
+  }
+  return drawn;
+}
+
+/** First seated player after `fromId` (wrapping around) that passes `accept`, if any. */
+function nextInSeatOrder(room: Room, fromId: string | null, accept: (p: Player) => boolean): Player | undefined {
+  const fromIdx = room.players.findIndex(p => p.id === fromId);
+  for (let i = 1; i <= room.players.length; i++) {
+    const candidate = room.players[(fromIdx + i) % room.players.length]!;
+    if (accept(candidate)) return candidate;
+  }
+  return undefined;
+}
+
+/**
+ * Choose next round's hetman according to `settings.hetmanRotation`.
+ * In sudden death the tied players are the contestants, so judging goes to
+ * someone outside the tie whenever there is anyone.
+ */
+function pickNextHetman(room: Room): string | null {
+  const current = room.hetmanId;
+  const tieBreak = room.tieBreakPlayerIds;
+  const eligible = (p: Player) => !tieBreak || !tieBreak.includes(p.id);
+  const sequential = () =>
+    (nextInSeatOrder(room, current, eligible) ?? nextInSeatOrder(room, current, () => true))?.id ?? current;
+
+  switch (room.settings.hetmanRotation) {
+    case "fixed": {
+      const hetman = room.players.find(p => p.id === current);
+      return hetman && eligible(hetman) ? current : sequential();
+    }
+    case "winner": {
+      // Rando can't judge — fall back to the next seat when it (or nobody seated) won
+      const winnerId = room.submissions.find(s => s.placement === 1)?.playerId;
+      const winner = room.players.find(p => p.id === winnerId);
+      return winner && eligible(winner) ? winner.id : sequential();
+    }
+    case "random": {
+      let pool = room.players.filter(p => eligible(p) && !room.recentHetmanIds.includes(p.id));
+      if (pool.length === 0) {
+        // Everyone has had a turn — start a new cycle, but never the same hetman twice in a row
+        room.recentHetmanIds = [];
+        pool = room.players.filter(p => eligible(p) && p.id !== current);
+      }
+      const next = pool[Math.floor(Math.random() * pool.length)];
+      if (!next) return sequential();
+      room.recentHetmanIds.push(next.id);
+      return next.id;
+    }
+    case "sequential":
+    default:
+      return sequential();
+  }
+}
+
+/** Start the black-card pick countdown (if configured); when it runs out a random choice is played. */
+function startPickCountdown(room: Room): void {
+  const limit = room.settings.hetmanPickTimeLimitSec;
+  room.hetmanDeadline = limit ? Date.now() + limit * 1_000 : null;
+  startHetmanTurnTimer(room, limit, () => {
+    room.hetmanDeadline = null;
+    const card = shuffleDeck(room.blackCardChoices)[0];
+    if (room.phase !== "hetmanPicking" || !room.hetmanId || !card) return;
+    pickBlackCard(room, room.hetmanId, card.id);
+  });
+}
+
+/** Start the judging countdown (if configured); when it runs out a random winner — or top three — is picked. */
+function startJudgingCountdown(room: Room): void {
+  const limit = room.settings.judgingTimeLimitSec;
+  room.hetmanDeadline = limit ? Date.now() + limit * 1_000 : null;
+  startHetmanTurnTimer(room, limit, () => {
+    room.hetmanDeadline = null;
+    if (room.phase !== "judging" || !room.hetmanId) return;
+    const places = room.settings.judgingMode === "ranked" ? RANKED_POINTS.length : 1;
+    const ranking = shuffleDeck(room.submissions).slice(0, places).map(s => s.anonymousId);
+    selectWinner(room, room.hetmanId, ranking);
+  });
+}
+
+/**
+ * Start the democracy voting countdown (`settings.judgingTimeLimitSec`, if set);
+ * when it runs out the votes cast so far decide the round.
+ */
+function startVotingCountdown(room: Room): void {
+  const limit = room.settings.judgingTimeLimitSec;
+  room.hetmanDeadline = limit ? Date.now() + limit * 1_000 : null;
+  startHetmanTurnTimer(room, limit, () => {
+    room.hetmanDeadline = null;
+    if (room.phase !== "voting") return;
+    finishVoting(room);
+  });
+}
+
+/**
+ * Someone in the room did something: push the inactivity watchdog back and, if a
+ * "still there?" warning is out, tell everyone it's been answered.
+ */
+export function touchActivity(room: Room): void {
+  room.lastActivityAt = Date.now();
+  if (room.inactivityWarned) {
+    room.inactivityWarned = false;
+    broadcast(room.id, SERVER_EVENTS.INACTIVITY_CLEARED, {});
+  }
+  resetInactivityTimer(
+    room,
+    msLeft => {
+      room.inactivityWarned = true;
+      broadcast(room.id, SERVER_EVENTS.INACTIVITY_WARNING, { secondsLeft: Math.round(msLeft / 1_000) });
+    },
+    () => endGame(room, "inactivity"),
+  );
+}
+
+/** (Re)arm the session limit at `room.sessionDeadline`, with countdown warnings on the way. */
+function startSessionCountdown(room: Room): void {
+  startSessionTimer(
+    room,
+    minutesLeft => broadcast(room.id, SERVER_EVENTS.SESSION_WARNING, { minutesLeft }),
+    () => endGame(room, "time_limit"),
+  );
 }
 
 function broadcastRoomState(room: Room): void {
@@ -63,29 +290,46 @@ export { broadcastRoomState };
  * caller can also schedule bot actions.
  */
 export function startGame(room: Room): void {
-  if (room.players.length < MIN_PLAYERS) {
+  if (room.players.length < room.settings.minPlayers) {
     throw new Error("NOT_ENOUGH_PLAYERS");
   }
   if (room.phase !== "lobby") {
     throw new Error("GAME_ALREADY_STARTED");
   }
 
-  // Shuffle fresh decks
-  room.blackDeck = shuffleDeck([...allBlackCards]);
-  room.whiteDeck = shuffleDeck([...allWhiteCards]);
+  // Everyone needs a full hand on the first deal, and the hetman needs something to pick
+  const black = getBlackSource(room);
+  const white = getWhiteSource(room);
+  if (black.length === 0 || white.length < room.settings.handSize * room.players.length) {
+    throw new RoomError("NOT_ENOUGH_CARDS", "Selected packs don't have enough cards for this many players");
+  }
+
+  // Shuffle fresh decks from the selected packs
+  // (custom cards written in the lobby are mixed into both decks)
+  room.blackDeck = shuffleDeck(black);
+  room.whiteDeck = shuffleDeck(white);
+  room.blackDiscard = [];
+  room.whiteDiscard = [];
   room.currentRound = 0;
+  room.randoPoints = 0;
+  room.blackCardRerollsUsed = 0;
+  room.tieBreakPlayerIds = null;
 
   // First hetman = host
   room.hetmanId = room.hostId;
+  room.recentHetmanIds = [room.hostId];
 
   // Session timers
-  startSessionTimer(room, () => endGame(room, "time_limit"));
-  resetInactivityTimer(room, () => endGame(room, "inactivity"));
+  room.sessionDeadline = Date.now() + room.settings.sessionLimitMin * 60_000;
+  room.sessionExtended = false;
+  room.finishAfterRound = false;
+  startSessionCountdown(room);
+  touchActivity(room);
 }
 
 /**
  * Deal a new round:
- * - Refill every player's hand to HAND_SIZE
+ * - Refill every player's hand to `settings.handSize`
  * - Draw 4 black cards for the Hetman to choose from
  * - Phase → "hetmanPicking"
  * - Broadcast round_start + private cards_dealt to each player
@@ -93,28 +337,29 @@ export function startGame(room: Room): void {
  * After this, caller should schedule bot black card pick if hetman is a bot.
  */
 export function dealRound(room: Room): void {
+  // Last round's cards leave the table
+  room.whiteDiscard.push(...room.submissions.flatMap(s => s.cards));
+  if (room.currentBlackCard) room.blackDiscard.push(room.currentBlackCard);
+
   room.currentRound++;
   room.phase = "hetmanPicking";
   room.submissions = [];
+  room.votes = {};
   room.currentBlackCard = null;
   room.blackCardChoices = [];
-
-  // Refill white deck if empty
-  room.whiteDeck = refillDeck(room.whiteDeck, allWhiteCards);
+  room.lateJoinerIds = [];
+  if (room.settings.blackCardRerollScope === "round") room.blackCardRerollsUsed = 0;
 
   // Refill each player's hand
   for (const player of room.players) {
-    const needed = HAND_SIZE - player.hand.length;
+    const needed = room.settings.handSize - player.hand.length;
     if (needed > 0) {
-      const drawn = room.whiteDeck.splice(0, needed);
-      player.hand.push(...drawn);
+      player.hand.push(...drawCards(room.whiteDeck, room.whiteDiscard, needed));
     }
   }
 
   // Draw black cards for hetman to choose from
-  room.blackDeck = refillDeck(room.blackDeck, allBlackCards);
-  const drawCount = Math.min(BLACK_CARD_CHOICES, room.blackDeck.length);
-  room.blackCardChoices = room.blackDeck.splice(0, drawCount);
+  room.blackCardChoices = drawCards(room.blackDeck, room.blackDiscard, room.settings.blackCardChoices);
 
   // Broadcast round start to room (no black card yet — hetman is picking)
   broadcast(room.id, SERVER_EVENTS.ROUND_START, {
@@ -135,34 +380,78 @@ export function dealRound(room: Room): void {
     });
   }
 
+  startPickCountdown(room);
   broadcastRoomState(room);
 
+  // An offline hetman gets a grace period before the seat moves on
+  const hetman = room.players.find(p => p.id === room.hetmanId);
+  if (hetman && !hetman.isBot && !hetman.isConnected) {
+    startHetmanGraceTimer(room, () => skipAbsentHetman(room));
+  }
+
   // Notify listeners that hetman needs to pick (bot scheduling etc.)
   room.onHetmanPick?.(room);
 }
 
+/**
+ * The hetman is still offline after the grace period while the black card is
+ * being picked: hand the same choices to the next connected player in seat order.
+ */
+export function skipAbsentHetman(room: Room): void {
+  if (room.phase !== "hetmanPicking") return;
+  const absent = room.players.find(p => p.id === room.hetmanId);
+  if (!absent || absent.isBot || absent.isConnected) return;
+
+  const tieBreak = room.tieBreakPlayerIds;
+  const present = (p: Player) => p.isBot || p.isConnected;
+  const next = nextInSeatOrder(room, absent.id, p => present(p) && (!tieBreak || !tieBreak.includes(p.id)))
+    ?? nextInSeatOrder(room, absent.id, present);
+  if (!next) return;
+
+  room.hetmanId = next.id;
+  broadcast(room.id, SERVER_EVENTS.HETMAN_SKIPPED, {
+    playerId: absent.id,
+    playerName: absent.name,
+    hetmanId: next.id,
+    hetmanName: next.name,
+  });
+  sendToPlayer(next.id, SERVER_EVENTS.BLACK_CARD_CHOICES, {
+    choices: room.blackCardChoices,
+  });
+  // The stand-in gets the full pick time
+  startPickCountdown(room);
+  broadcastRoomState(room);
+  room.onHetmanPick?.(room);
+}
+
 /**
  * Hetman picks one of the offered black cards.
  * Unused cards are returned to the bottom of the deck.
  * Then the round transitions to "submitting".
  */
-export function pickBlackCard(room: Room, hetmanId: string, card: string): void {
+export function pickBlackCard(room: Room, hetmanId: string, cardId: string): void {
   if (room.phase !== "hetmanPicking") throw new Error("NOT_HETMAN_PICKING_PHASE");
   if (hetmanId !== room.hetmanId) throw new Error("NOT_HETMAN");
 
-  const idx = room.blackCardChoices.indexOf(card);
+  const idx = room.blackCardChoices.findIndex(c => c.id === cardId);
   if (idx === -1) throw new Error("CARD_NOT_IN_CHOICES");
 
+  cancelHetmanGraceTimer(room);
+  cancelHetmanTurnTimer(room);
+  room.hetmanDeadline = null;
+
   // Set the chosen black card
-  room.currentBlackCard = card;
+  room.currentBlackCard = room.blackCardChoices[idx]!;
 
-  // Return un-chosen cards to the bottom of the deck
+  // Un-chosen cards go to the discard pile
   const unused = room.blackCardChoices.filter((_, i) => i !== idx);
-  room.blackDeck.push(...unused);
+  room.blackDiscard.push(...unused);
   room.blackCardChoices = [];
 
   // Transition to submitting
   room.phase = "submitting";
+  topUpShortHands(room);
+  submitRandoCards(room);
 
   // Start submission timer if configured
   room.submissionDeadline = room.settings.submissionTimeLimitSec
@@ -171,13 +460,14 @@ export function pickBlackCard(room: Room, hetmanId: string, card: string): void
 
   startSubmissionTimer(room, () => {
     room.submissionDeadline = null;
-    // Force-submit a random card for every player who hasn't submitted
+    // Force-submit random cards for every player who hasn't submitted
+    const pick = getPickCount(room);
     for (const playerId of getSubmitters(room)) {
       const player = room.players.find(p => p.id === playerId);
       if (!player || room.submissions.some(s => s.playerId === playerId)) continue;
-      if (player.hand.length > 0) {
-        const randomCard = player.hand[Math.floor(Math.random() * player.hand.length)]!;
-        submitCard(room, playerId, randomCard);
+      if (player.hand.length >= pick) {
+        const randomCards = shuffleDeck(player.hand).slice(0, pick);
+        submitCard(room, playerId, randomCards.map(c => c.id));
       }
     }
   });
@@ -193,154 +483,444 @@ export function pickBlackCard(room: Room, hetmanId: string, card: string): void
   room.onDealComplete?.(room);
 }
 
-/** Submit a white card on behalf of a player. */
-export function submitCard(room: Room, playerId: string, card: string): void {
+/**
+ * Hetman rejects every offered black card: a fresh set is dealt first and the
+ * rejected ones go to the discard pile, so they can't come straight back.
+ * Limited by `settings.blackCardRerolls`.
+ */
+export function rerollBlackCards(room: Room, hetmanId: string): void {
+  if (room.phase !== "hetmanPicking") throw new Error("NOT_HETMAN_PICKING_PHASE");
+  if (hetmanId !== room.hetmanId) throw new Error("NOT_HETMAN");
+  if (room.blackCardRerollsUsed >= room.settings.blackCardRerolls) throw new Error("NO_REROLLS_LEFT");
+
+  const fresh = drawCards(room.blackDeck, room.blackDiscard, room.settings.blackCardChoices);
+  if (fresh.length === 0) throw new Error("NO_BLACK_CARDS_LEFT");
+
+  room.blackCardRerollsUsed++;
+  room.blackDiscard.push(...room.blackCardChoices);
+  room.blackCardChoices = fresh;
+
+  sendToPlayer(hetmanId, SERVER_EVENTS.BLACK_CARD_CHOICES, {
+    choices: room.blackCardChoices,
+  });
+  broadcastRoomState(room);
+}
+
+/**
+ * Play cards for the current prompt. With the gambling house rule on, a player
+ * who already submitted may pass `wager` to stake one point on a second answer.
+ */
+export function submitCard(room: Room, playerId: string, cardIds: string[], wager = false): void {
   if (room.phase !== "submitting") throw new Error("NOT_SUBMITTING_PHASE");
 
   const player = room.players.find(p => p.id === playerId);
   if (!player) throw new Error("PLAYER_NOT_FOUND");
 
-  if (playerId === room.hetmanId) throw new Error("HETMAN_CANNOT_SUBMIT");
-
-  if (room.submissions.some(s => s.playerId === playerId)) {
+  if (playerId === room.hetmanId && room.settings.judgingMode !== "democracy") {
+    throw new Error("HETMAN_CANNOT_SUBMIT");
+  }
+  if (!getSubmitters(room).includes(playerId)) throw new Error("NOT_IN_TIE_BREAK");
+
+  const ownCount = room.submissions.filter(s => s.playerId === playerId).length;
+  if (wager) {
+    if (!room.settings.allowGambling) throw new Error("GAMBLING_DISABLED");
+    if (ownCount === 0) throw new Error("NOTHING_TO_WAGER_ON");
+    if (ownCount > 1) throw new Error("ALREADY_WAGERED");
+    if (player.points <= 0) throw new Error("NO_POINTS_TO_SPEND");
+  } else if (ownCount > 0) {
     throw new Error("ALREADY_SUBMITTED");
   }
 
-  // Security: server-side validation that the submitted card is actually in the player's hand
-  const cardIdx = player.hand.indexOf(card);
-  if (cardIdx === -1) throw new Error("CARD_NOT_IN_HAND");
+  if (cardIds.length !== getPickCount(room)) throw new Error("WRONG_CARD_COUNT");
+
+  // Security: server-side validation that every submitted card is actually in the player's hand.
+  // Validate against a copy first so a bad request never leaves the hand half-spliced.
+  const remaining = [...player.hand];
+  const cards: Card[] = [];
+  for (const cardId of cardIds) {
+    const cardIdx = remaining.findIndex(c => c.id === cardId);
+    if (cardIdx === -1) throw new Error("CARD_NOT_IN_HAND");
+    cards.push(...remaining.splice(cardIdx, 1));
+  }
 
-  // Remove card from hand
-  player.hand.splice(cardIdx, 1);
+  // Remove cards from hand
+  player.hand = remaining;
+  // The stake is held until the round is decided (see awardRound)
+  if (wager) player.points--;
 
   // Record submission
-  room.submissions.push({
+  const submission: Submission = {
     anonymousId: randomUUID(),
     playerId,
-    card,
-    isWinner: false,
-  });
+    cards,
+    placement: null,
+    isWager: wager,
+  };
+  room.submissions.push(submission);
 
-  const count = room.submissions.length;
-  broadcast(room.id, SERVER_EVENTS.SUBMISSION_RECEIVED, { count });
+  // The author learns which anonymous card is theirs (to take it back, or to grey it out when voting)
+  sendToPlayer(playerId, SERVER_EVENTS.YOUR_SUBMISSION, { submissionId: submission.anonymousId, cards });
+
+  const submitted = countSubmitted(room);
+  broadcast(room.id, SERVER_EVENTS.SUBMISSION_RECEIVED, { count: submitted });
 
   // Check if all eligible players have submitted
-  const submitters = getSubmitters(room);
-  const allSubmitted = submitters.every(id => room.submissions.some(s => s.playerId === id));
+  const allSubmitted = submitted === getSubmitters(room).length;
 
   if (allSubmitted) {
     cancelSubmissionTimer(room);
-    room.phase = "judging";
+    const democracy = room.settings.judgingMode === "democracy";
+    room.phase = democracy ? "voting" : "judging";
     room.submissionDeadline = null;
 
     // Shuffle anonymous submissions so submission order doesn't reveal anything
-    const shuffled = shuffleDeck(
-      room.submissions.map(s => ({ id: s.anonymousId, card: s.card })),
-    );
+    const shuffled = shuffleDeck(room.submissions.map(toAnonymousSubmission));
+    if (democracy) startVotingCountdown(room);
+    else startJudgingCountdown(room);
 
     broadcast(room.id, SERVER_EVENTS.ALL_SUBMITTED, { submissions: shuffled });
     broadcastRoomState(room);
 
-    // Notify listeners that judging has started (bot hetman scheduling etc.)
-    room.onJudgingStart?.(room);
+    if (democracy) {
+      room.onVotingStart?.(room);
+    } else {
+      // Notify listeners that judging has started (bot hetman scheduling etc.)
+      room.onJudgingStart?.(room);
+    }
   } else {
     broadcastRoomState(room);
   }
 }
 
-/** Hetman picks the winning submission by anonymous id. */
-export function selectWinner(room: Room, hetmanId: string, submissionAnonymousId: string): void {
+/**
+ * Take an answer back while others are still submitting: the cards return to
+ * the player's hand and a gambling stake is refunded. A gambler must take the
+ * staked answer back before their first one.
+ */
+export function retractSubmission(room: Room, playerId: string, submissionAnonymousId: string): void {
+  if (room.phase !== "submitting") throw new Error("NOT_SUBMITTING_PHASE");
+
+  const player = room.players.find(p => p.id === playerId);
+  if (!player) throw new Error("PLAYER_NOT_FOUND");
+
+  const idx = room.submissions.findIndex(s => s.anonymousId === submissionAnonymousId && s.playerId === playerId);
+  if (idx === -1) throw new Error("SUBMISSION_NOT_FOUND");
+  const submission = room.submissions[idx]!;
+  if (!submission.isWager && room.submissions.some(s => s.playerId === playerId && s.isWager)) {
+    throw new Error("RETRACT_WAGER_FIRST");
+  }
+
+  room.submissions.splice(idx, 1);
+  player.hand.push(...submission.cards);
+  if (submission.isWager) player.points++;
+
+  sendToPlayer(playerId, SERVER_EVENTS.SUBMISSION_RETRACTED, { submissionId: submission.anonymousId });
+  sendToPlayer(playerId, SERVER_EVENTS.CARDS_DEALT, { hand: player.hand });
+  broadcast(room.id, SERVER_EVENTS.SUBMISSION_RECEIVED, { count: countSubmitted(room) });
+  broadcastRoomState(room);
+}
+
+/**
+ * "Rebooting the Universe": a player spends one point to throw away their
+ * whole hand and draw a fresh one. Only while submitting, before they submit.
+ */
+export function redrawHand(room: Room, playerId: string): void {
+  if (!room.settings.allowRedraw) throw new Error("REDRAW_DISABLED");
+  if (room.phase !== "submitting") throw new Error("NOT_SUBMITTING_PHASE");
+
+  const player = room.players.find(p => p.id === playerId);
+  if (!player) throw new Error("PLAYER_NOT_FOUND");
+  if (!getSubmitters(room).includes(playerId)) throw new Error("NOT_A_SUBMITTER");
+  if (room.submissions.some(s => s.playerId === playerId)) throw new Error("ALREADY_SUBMITTED");
+  if (player.points <= 0) throw new Error("NO_POINTS_TO_SPEND");
+
+  player.points--;
+  room.whiteDiscard.push(...player.hand);
+  player.hand = drawCards(room.whiteDeck, room.whiteDiscard, room.settings.handSize);
+
+  sendToPlayer(playerId, SERVER_EVENTS.CARDS_DEALT, { hand: player.hand });
+  broadcast(room.id, SERVER_EVENTS.HAND_REDRAWN, { playerId, playerName: player.name });
+  broadcastRoomState(room);
+}
+
+/**
+ * Hetman judges by anonymous id: `ranking` holds the single winner, or in ranked
+ * mode the top three answers in order (fewer when fewer were submitted).
+ */
+export function selectWinner(room: Room, hetmanId: string, ranking: string[]): void {
   if (room.phase !== "judging") throw new Error("NOT_JUDGING_PHASE");
   // Security: only the current Hetman (Card Czar) can select the winner
   if (hetmanId !== room.hetmanId) throw new Error("NOT_HETMAN");
 
+  const expected = room.settings.judgingMode === "ranked"
+    ? Math.min(RANKED_POINTS.length, room.submissions.length)
+    : 1;
+  if (ranking.length !== expected) throw new Error("WRONG_RANKING_SIZE");
+  if (new Set(ranking).size !== ranking.length) throw new Error("DUPLICATE_IN_RANKING");
+
+  const placed = ranking.map(id => {
+    const submission = room.submissions.find(s => s.anonymousId === id);
+    if (!submission) throw new Error("SUBMISSION_NOT_FOUND");
+    return submission;
+  });
+
+  cancelHetmanTurnTimer(room);
+  room.hetmanDeadline = null;
+  awardRound(room, placed, null);
+}
+
+/**
+ * Democracy mode: record a player's vote. Once every voter is in — or the
+ * voting countdown runs out — the top-voted submission wins.
+ */
+export function castVote(room: Room, playerId: string, submissionAnonymousId: string): void {
+  if (room.phase !== "voting") throw new Error("NOT_VOTING_PHASE");
+  if (!getVoters(room).includes(playerId)) throw new Error("NOT_A_VOTER");
+  if (room.votes[playerId] !== undefined) throw new Error("ALREADY_VOTED");
+
   const submission = room.submissions.find(s => s.anonymousId === submissionAnonymousId);
   if (!submission) throw new Error("SUBMISSION_NOT_FOUND");
+  if (submission.playerId === playerId) throw new Error("CANNOT_VOTE_OWN");
 
-  // Award point
-  const winner = room.players.find(p => p.id === submission.playerId);
-  if (winner) winner.points++;
-  submission.isWinner = true;
+  room.votes[playerId] = submission.anonymousId;
+
+  const allVoted = getVoters(room).every(id => room.votes[id] !== undefined);
+  if (!allVoted) {
+    broadcastRoomState(room);
+    return;
+  }
+
+  cancelHetmanTurnTimer(room);
+  room.hetmanDeadline = null;
+  finishVoting(room);
+}
+
+/** Tally the votes cast so far; a tie on top — or no votes at all — is broken at random. */
+function finishVoting(room: Room): void {
+  const tallies: Record<string, number> = {};
+  for (const s of room.submissions) tallies[s.anonymousId] = 0;
+  for (const id of Object.values(room.votes)) tallies[id] = (tallies[id] ?? 0) + 1;
+
+  const topVotes = Math.max(...Object.values(tallies));
+  const leaders = room.submissions.filter(s => tallies[s.anonymousId] === topVotes);
+  awardRound(room, [shuffleDeck(leaders)[0]!], tallies);
+}
+
+/** Credit points to a seated player or to Rando. */
+function addPoints(room: Room, playerId: string, points: number): void {
+  if (playerId === RANDO_ID) {
+    room.randoPoints += points;
+    return;
+  }
+  const player = room.players.find(p => p.id === playerId);
+  if (player) player.points += points;
+}
+
+/**
+ * Award the round to the placed submissions (`ranking[0]` wins), reveal them
+ * and schedule round end. Ranked judging pays 3/2/1; otherwise the winner gets 1.
+ * `votes` carries the democracy-mode tallies (null when the Hetman judged).
+ */
+function awardRound(room: Room, ranking: Submission[], votes: Record<string, number> | null): void {
+  const submission = ranking[0]!;
+  const points = room.settings.judgingMode === "ranked" ? RANKED_POINTS : [1];
+  ranking.forEach((s, i) => {
+    s.placement = i + 1;
+    addPoints(room, s.playerId, points[i] ?? 0);
+  });
+
+  // Settle gambling stakes: a gambler who won gets the stake back, otherwise it goes to the round winner
+  for (const s of room.submissions) {
+    if (s.isWager) addPoints(room, submission.playerId, 1);
+  }
+
+  const { pointsToWin } = room.settings;
+  const reachedTarget = pointsToWin !== null && (computeScores(room)[0]?.points ?? 0) >= pointsToWin;
 
   room.phase = "reveal";
 
+  const winner = room.players.find(p => p.id === submission.playerId);
   const winnerPlayer = winner
     ? getPublicPlayer(winner, new Set(room.submissions.map(s => s.playerId)))
-    : null;
+    : submission.playerId === RANDO_ID ? getRandoPlayer(room) : null;
 
   broadcast(room.id, SERVER_EVENTS.WINNER_SELECTED, {
     submission,
-    playerName: winner?.name ?? "Unknown",
+    playerName: winnerPlayer?.name ?? "Unknown",
+    ranking,
+    votes,
   });
   broadcastRoomState(room);
 
-  // After REVEAL_DELAY: broadcast round_end
-  room.timers["reveal"] = setTimeout(() => {
-    delete room.timers["reveal"];
+  // After REVEAL_DELAY: broadcast round_end (or finish — the winning card still gets its reveal)
+  scheduleTimer(room, "reveal", room.settings.revealDelaySec * 1_000, () => {
+    if (reachedTarget) {
+      endGame(room, "points_reached");
+      return;
+    }
     room.phase = "roundEnd";
     broadcast(room.id, SERVER_EVENTS.ROUND_END, { scores: computeScores(room) });
     broadcastRoomState(room);
 
     // After ADVANCE_DELAY: advance to next round
-    room.timers["advance"] = setTimeout(() => {
-      delete room.timers["advance"];
-      advanceRound(room);
-    }, ADVANCE_DELAY_MS);
-  }, REVEAL_DELAY_MS);
-
-  void winnerPlayer; // referenced in payload above
+    scheduleTimer(room, "advance", room.settings.advanceDelaySec * 1_000, () => advanceRound(room));
+  });
 }
 
 /**
- * Rotate hetman (if enabled) and start the next round or end the game.
+ * Pass the hetman seat on (see `settings.hetmanRotation`) and start the next round or end the game
+ * (also ends it when the host chose to finish after this round).
+ * With sudden death on, a tie after the last round (or after a tie-break round)
+ * starts another round where only the tied players submit.
  * Bot scheduling is handled automatically via room.onDealComplete / room.onJudgingStart.
  */
 export function advanceRound(room: Room): void {
-  if (room.currentRound >= room.settings.maxRounds) {
-    endGame(room, "rounds_complete");
+  if (room.finishAfterRound) {
+    endGame(room, "time_limit");
     return;
   }
 
-  // Rotate hetman
-  if (room.settings.rotateHetman) {
-    const currentIdx = room.players.findIndex(p => p.id === room.hetmanId);
-    const nextIdx = (currentIdx + 1) % room.players.length;
-    room.hetmanId = room.players[nextIdx]!.id;
+  const { maxRounds, suddenDeath } = room.settings;
+  if (room.tieBreakPlayerIds || (maxRounds !== null && room.currentRound >= maxRounds)) {
+    const tied = getTopScorerIds(room);
+    if (!suddenDeath || tied.length < 2) {
+      endGame(room, "rounds_complete");
+      return;
+    }
+    room.tieBreakPlayerIds = tied;
   }
 
+  room.hetmanId = pickNextHetman(room);
   dealRound(room);
 }
 
 /** End the game, broadcast final scores, and schedule room cleanup. */
 export function endGame(
   room: Room,
-  _reason: "rounds_complete" | "time_limit" | "inactivity",
+  reason: GameOverReason,
 ): void {
   if (room.phase === "gameOver") return; // already ended
 
   clearAllTimers(room);
+  room.pausedAt = null;
+  room.hetmanDeadline = null;
+  room.sessionDeadline = null;
+  room.inactivityWarned = false;
   room.phase = "gameOver";
+  room.tieBreakPlayerIds = null;
 
-  const scores = computeScores(room);
-  const topScore = scores[0]?.points ?? 0;
-  const winners = room.players.filter(p => p.points === topScore);
-  const winnerPlayer = winners[0] ?? room.players[0];
-
-  if (!winnerPlayer) {
+  if (room.players.length === 0) {
     rooms.delete(room.id);
     return;
   }
 
-  const publicWinner = getPublicPlayer(
-    winnerPlayer,
-    new Set(room.submissions.map(s => s.playerId)),
-  );
+  const scores = computeScores(room);
+  const submittedIds = new Set(room.submissions.map(s => s.playerId));
+  // Every player sharing the top score is a co-winner (Rando can be one of them)
+  const winners = getTopScorerIds(room).map(id => {
+    const player = room.players.find(p => p.id === id);
+    return player ? getPublicPlayer(player, submittedIds) : getRandoPlayer(room);
+  });
 
-  broadcast(room.id, SERVER_EVENTS.GAME_OVER, { winner: publicWinner, scores });
+  broadcast(room.id, SERVER_EVENTS.GAME_OVER, { winners, scores, reason });
   broadcastRoomState(room);
 
   // Remove room after linger period
-  room.timers["cleanup"] = setTimeout(() => {
-    rooms.delete(room.id);
-  }, ROOM_LINGER_MS);
+  scheduleTimer(room, "cleanup", ROOM_LINGER_MS, () => rooms.delete(room.id));
+}
+
+/**
+ * Host pause: freeze every round timer (bots, countdowns, reveal/advance, session)
+ * until `resumeGame`. Game actions are refused by the handler while paused.
+ */
+export function pauseGame(room: Room): void {
+  if (room.phase === "lobby" || room.phase === "gameOver") throw new Error("GAME_NOT_RUNNING");
+  if (room.pausedAt !== null) throw new Error("ALREADY_PAUSED");
+
+  room.pausedAt = Date.now();
+  pauseTimers(room);
+  broadcastRoomState(room);
+}
+
+/** Resume a paused game: re-arm the frozen timers and push the phase deadlines back. */
+export function resumeGame(room: Room): void {
+  if (room.pausedAt === null) throw new Error("NOT_PAUSED");
+
+  const pausedMs = Date.now() - room.pausedAt;
+  room.pausedAt = null;
+  if (room.submissionDeadline !== null) room.submissionDeadline += pausedMs;
+  if (room.hetmanDeadline !== null) room.hetmanDeadline += pausedMs;
+  if (room.sessionDeadline !== null) room.sessionDeadline += pausedMs;
+  resumeTimers(room, pausedMs);
+  broadcastRoomState(room);
+}
+
+/** Host pushes the session limit back by `settings.sessionExtensionMin` — once per game. */
+export function extendSession(room: Room): void {
+  if (room.phase === "lobby" || room.phase === "gameOver") throw new Error("GAME_NOT_RUNNING");
+  if (room.sessionDeadline === null) throw new Error("NO_SESSION_LIMIT");
+  if (room.sessionExtended) throw new Error("ALREADY_EXTENDED");
+
+  const minutes = room.settings.sessionExtensionMin;
+  room.sessionDeadline += minutes * 60_000;
+  room.sessionExtended = true;
+  startSessionCountdown(room);
+
+  broadcast(room.id, SERVER_EVENTS.SESSION_EXTENDED, { minutes });
+  broadcastRoomState(room);
+}
+
+/** Host drops the hard session cut: the game ends cleanly once the current round is over. */
+export function finishAfterRound(room: Room): void {
+  if (room.phase === "lobby" || room.phase === "gameOver") throw new Error("GAME_NOT_RUNNING");
+  if (room.finishAfterRound) return;
+
+  room.finishAfterRound = true;
+  room.sessionDeadline = null;
+  cancelSessionTimer(room);
+  broadcastRoomState(room);
+}
+
+/**
+ * Rematch: take a finished room back to the lobby with the same players.
+ * Cancels the cleanup timer, wipes points / hands / decks / round state and
+ * keeps every player's token valid so nobody has to rejoin.
+ */
+export function restartGame(room: Room): void {
+  if (room.phase !== "gameOver") throw new Error("GAME_NOT_OVER");
+
+  clearAllTimers(room);
+  // The rematch lobby still needs its inactivity watchdog, or an abandoned room is never removed
+  room.inactivityWarned = false;
+  touchActivity(room);
+
+  for (const player of room.players) {
+    player.points = 0;
+    player.hand = [];
+  }
+
+  const sources = getCardSources(room.settings.packs);
+  room.blackDeck = [...sources.black];
+  room.whiteDeck = [...sources.white];
+  room.blackDiscard = [];
+  room.whiteDiscard = [];
+  room.submissions = [];
+  room.votes = {};
+  room.tieBreakPlayerIds = null;
+  room.blackCardChoices = [];
+  room.currentBlackCard = null;
+  room.currentRound = 0;
+  room.hetmanId = null;
+  room.randoPoints = 0;
+  room.blackCardRerollsUsed = 0;
+  room.recentHetmanIds = [];
+  room.lateJoinerIds = [];
+  room.submissionDeadline = null;
+  room.hetmanDeadline = null;
+  room.sessionExtended = false;
+  room.finishAfterRound = false;
+  room.phase = "lobby";
+
+  broadcast(room.id, SERVER_EVENTS.GAME_RESTARTED, {});
+  broadcastRoomState(room);
 }
@@ -1,7 +1,21 @@
 import { randomUUID } from "crypto";
-import type { Room, Player, GameSettings, PublicRoom, PublicPlayer } from "../../lib/types";
-import { DEFAULT_GAME_SETTINGS } from "../../lib/types";
-import { blackCards, whiteCards } from "../../lib/cards";
+import type {
+  Room,
+  Player,
+  Spectator,
+  GameSettings,
+  PublicRoom,
+  PublicPlayer,
+  CustomCard,
+  CustomCardKind,
+  Submission,
+  AnonymousSubmission,
+  AdvancedSettingKey,
+  CardLanguage,
+} from "../../lib/types";
+import { DEFAULT_GAME_SETTINGS, RANDO_ID, SETTING_BOUNDS } from "../../lib/types";
+import { CARD_PACKS, getCardSources, getLanguagePacks, normalizeBlackCard, countBlanks } from "../../lib/cards";
+import { t } from "../../lib/i18n";
 
 // ── In-memory store ────────────────────────────────────────────────────────────
 
@@ -22,6 +36,33 @@ export class RoomError extends Error {
 // ── Internal helpers ───────────────────────────────────────────────────────────
 
 const ROOM_CODE_CHARS = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CUSTOM_CARD_MAX_LENGTH = 100;
+const MAX_SPECTATORS = 50;
+const SPECTATOR_GRACE_MS = 60_000;  // an offline spectator keeps their seat this long to reconnect
+
+/** Server bounds for the numeric settings outside the advanced section; `null` means "off" where allowed. */
+const BASIC_SETTING_BOUNDS: { key: keyof GameSettings; min: number; max: number; nullable: boolean }[] = [
+  { key: "maxRounds",              min: 1,  max: 30,  nullable: true },
+  { key: "pointsToWin",            min: 1,  max: 30,  nullable: true },
+  { key: "blackCardRerolls",       min: 0,  max: 3,   nullable: false },
+  { key: "customCardsPerPlayer",   min: 1,  max: 10,  nullable: false },
+  { key: "submissionTimeLimitSec", min: 10, max: 300, nullable: true },
+  { key: "hetmanPickTimeLimitSec", min: 10, max: 300, nullable: true },
+  { key: "judgingTimeLimitSec",    min: 10, max: 300, nullable: true },
+];
+
+/** Allowed values for the string settings; anything else would crash lookups keyed on them. */
+const SETTING_CHOICES: { key: keyof GameSettings; values: readonly string[] }[] = [
+  { key: "judgingMode",          values: ["hetman", "ranked", "democracy"] },
+  { key: "hetmanRotation",       values: ["sequential", "random", "winner", "fixed"] },
+  { key: "blackCardRerollScope", values: ["round", "game"] },
+  { key: "cardLanguage",         values: ["uk", "en"] },
+];
+
+const BOOLEAN_SETTINGS: (keyof GameSettings)[] = [
+  "suddenDeath", "rando", "allowRedraw", "allowGambling",
+  "allowLateJoin", "lateJoinCatchUp", "allowCustomCards",
+];
 
 function generateRoomId(): string {
   let code = "";
@@ -62,31 +103,56 @@ export function createRoom(
 ): { room: Room; host: Player } {
   const host = makePlayer(hostName.trim() || "Host", true);
   const mergedSettings: GameSettings = { ...DEFAULT_GAME_SETTINGS, ...settings };
+  // A room created without an explicit pack selection plays every pack in its card language
+  if (!settings.packs) mergedSettings.packs = getLanguagePacks(mergedSettings.cardLanguage);
+  validateSettings(mergedSettings);
+  const sources = getCardSources(mergedSettings.packs);
 
   const room: Room = {
     id: generateRoomId(),
     hostId: host.id,
     players: [host],
+    spectators: [],
     phase: "lobby",
     settings: mergedSettings,
     currentRound: 0,
     hetmanId: null,
     currentBlackCard: null,
     blackCardChoices: [],
+    blackCardRerollsUsed: 0,
     submissions: [],
-    blackDeck: [...blackCards],
-    whiteDeck: [...whiteCards],
+    tieBreakPlayerIds: null,
+    votes: {},
+    randoPoints: 0,
+    recentHetmanIds: [],
+    lateJoinerIds: [],
+    blackDeck: [...sources.black],
+    whiteDeck: [...sources.white],
+    blackDiscard: [],
+    whiteDiscard: [],
+    customWhiteCards: [],
+    customBlackCards: [],
     createdAt: Date.now(),
     lastActivityAt: Date.now(),
     submissionDeadline: null,
+    hetmanDeadline: null,
     timers: {},
+    timerTasks: {},
+    pausedAt: null,
+    sessionDeadline: null,
+    sessionExtended: false,
+    finishAfterRound: false,
+    inactivityWarned: false,
   };
 
   rooms.set(room.id, room);
   return { room, host };
 }
 
-/** Join an existing lobby room. */
+/**
+ * Join a room. Outside the lobby this needs `settings.allowLateJoin`: the newcomer
+ * sits out the current round and is dealt in on the next one.
+ */
 export function joinRoom(
   roomId: string,
   playerName: string,
@@ -94,22 +160,72 @@ export function joinRoom(
 ): { room: Room; player: Player } {
   const room = rooms.get(roomId.toUpperCase());
   if (!room) throw new RoomError("ROOM_NOT_FOUND", "Room not found");
-  if (room.phase !== "lobby") throw new RoomError("GAME_ALREADY_STARTED", "Game already started");
-  if (room.players.length >= 10) throw new RoomError("ROOM_FULL", "Room is full");
+  const late = room.phase !== "lobby";
+  if (late && (!room.settings.allowLateJoin || room.phase === "gameOver")) {
+    throw new RoomError("GAME_ALREADY_STARTED", "Game already started");
+  }
+  if (room.players.length >= room.settings.maxPlayers) throw new RoomError("ROOM_FULL", "Room is full");
   if (room.settings.password && room.settings.password !== password) {
     throw new RoomError("WRONG_PASSWORD", "Wrong password");
   }
   const player = makePlayer(playerName.trim() || "Player", false);
+  if (late) {
+    if (room.settings.lateJoinCatchUp) {
+      player.points = Math.min(...room.players.map(p => p.points));
+    }
+    room.lateJoinerIds.push(player.id);
+  }
   room.players.push(player);
   room.lastActivityAt = Date.now();
   return { room, player };
 }
 
+/** Find a spectator in any room by their reconnect token. */
+export function getSpectatorByToken(token: string): { room: Room; spectator: Spectator } | undefined {
+  for (const room of rooms.values()) {
+    const spectator = room.spectators.find(s => s.token === token);
+    if (spectator) return { room, spectator };
+  }
+  return undefined;
+}
+
+/** Watch a room in any phase. Spectators don't take a player seat. */
+export function joinAsSpectator(
+  roomId: string,
+  name: string,
+  password?: string,
+): { room: Room; spectator: Spectator } {
+  const room = rooms.get(roomId.toUpperCase());
+  if (!room) throw new RoomError("ROOM_NOT_FOUND", "Room not found");
+  // Drop spectators who left (or never opened their socket) so they don't hold seats forever
+  const now = Date.now();
+  room.spectators = room.spectators.filter(s => s.isConnected || now - s.lastSeenAt < SPECTATOR_GRACE_MS);
+  if (room.spectators.length >= MAX_SPECTATORS) throw new RoomError("ROOM_FULL", "Too many spectators");
+  if (room.settings.password && room.settings.password !== password) {
+    throw new RoomError("WRONG_PASSWORD", "Wrong password");
+  }
+  const spectator: Spectator = {
+    id: randomUUID(),
+    token: randomUUID(),
+    name: name.trim() || "Spectator",
+    isConnected: false,
+    lastSeenAt: now,
+  };
+  room.spectators.push(spectator);
+  return { room, spectator };
+}
+
+/** Language for server-made names — falls back to Ukrainian so a stray code can't break the lookup. */
+function nameLang(room: Room): CardLanguage {
+  return room.settings.cardLanguage === "en" ? "en" : "uk";
+}
+
 /** Add an AI bot to the lobby. */
 export function addBot(room: Room): Player {
-  if (room.players.length >= 10) throw new RoomError("ROOM_FULL", "Room is full");
+  if (room.players.length >= room.settings.maxPlayers) throw new RoomError("ROOM_FULL", "Room is full");
   const botNum = room.players.filter(p => p.isBot).length + 1;
-  const bot = makePlayer(`Бот #${botNum} (ШІ)`, false, true);
+  const lang = nameLang(room);
+  const bot = makePlayer(`${t("player.bot", lang)} #${botNum} ${t("misc.ai_suffix", lang)}`, false, true);
   room.players.push(bot);
   return bot;
 }
@@ -131,7 +247,7 @@ export function replaceWithBot(
     ...oldPlayer,
     id: randomUUID(),
     token: randomUUID(),
-    name: `${oldPlayer.name.replace(/ \(ШІ\)$/, "")} (ШІ)`,
+    name: `${oldPlayer.name.replace(/ \((ШІ|AI)\)$/, "")} ${t("misc.ai_suffix", nameLang(room))}`,
     isBot: true,
     isConnected: true,
     isHost: false,
@@ -148,19 +264,146 @@ export function replaceWithBot(
   if (room.hetmanId === playerId) {
     room.hetmanId = bot.id;
   }
+  // The bot inherits this round's answer, vote and tie-break seat so it doesn't act twice
+  for (const s of room.submissions) {
+    if (s.playerId === playerId) s.playerId = bot.id;
+  }
+  if (room.votes[playerId] !== undefined) {
+    room.votes[bot.id] = room.votes[playerId]!;
+    delete room.votes[playerId];
+  }
+  if (room.tieBreakPlayerIds) {
+    room.tieBreakPlayerIds = room.tieBreakPlayerIds.map(id => id === playerId ? bot.id : id);
+  }
+  room.recentHetmanIds = room.recentHetmanIds.map(id => id === playerId ? bot.id : id);
+  room.lateJoinerIds = room.lateJoinerIds.map(id => id === playerId ? bot.id : id);
 
   room.players[idx] = bot;
   void botNum; // suppress unused var warning — used in name above
   return { oldPlayer, bot };
 }
 
+/**
+ * Add a player-written card (lobby only, `allowCustomCards` must be on).
+ * Each player may contribute up to `settings.customCardsPerPlayer` cards of each kind.
+ * Black cards must contain 1–3 `_` blanks.
+ */
+export function addCustomCard(
+  room: Room,
+  playerId: string,
+  text: string,
+  kind: CustomCardKind = "white",
+): CustomCard {
+  if (room.phase !== "lobby") throw new RoomError("GAME_ALREADY_STARTED", "Game already started");
+  if (!room.settings.allowCustomCards) {
+    throw new RoomError("CUSTOM_CARDS_DISABLED", "Custom cards are disabled in this room");
+  }
+  const player = room.players.find(p => p.id === playerId);
+  if (!player) throw new RoomError("ROOM_NOT_FOUND", "Player not found");
+
+  let trimmed = text.trim().replace(/\s+/g, " ");
+  if (!trimmed || trimmed.length > CUSTOM_CARD_MAX_LENGTH) {
+    throw new RoomError("INVALID_PAYLOAD", "Card text must be 1-100 characters");
+  }
+  if (kind === "black") {
+    const prompt = normalizeBlackCard(trimmed);
+    if (!prompt) throw new RoomError("INVALID_BLACK_CARD", "Black card must contain 1-3 _ blanks");
+    trimmed = prompt;
+  }
+
+  const list = kind === "black" ? room.customBlackCards : room.customWhiteCards;
+  const authored = list.filter(c => c.authorId === playerId).length;
+  if (authored >= room.settings.customCardsPerPlayer) {
+    throw new RoomError("CUSTOM_CARD_LIMIT", "Custom card limit reached");
+  }
+
+  const card: CustomCard = {
+    id: `custom:${randomUUID()}`,
+    text: trimmed,
+    packId: "custom",
+    pick: kind === "black" ? countBlanks(trimmed) : 0,
+    lang: room.settings.cardLanguage,
+    tags: ["custom"],
+    authorId: playerId,
+    authorName: player.name,
+  };
+  list.push(card);
+  return card;
+}
+
+/** Remove a custom card. Authors may remove their own; the host may remove any (moderation). */
+export function removeCustomCard(room: Room, playerId: string, cardId: string): void {
+  if (room.phase !== "lobby") throw new RoomError("GAME_ALREADY_STARTED", "Game already started");
+  const card = [...room.customWhiteCards, ...room.customBlackCards].find(c => c.id === cardId);
+  if (!card) throw new RoomError("INVALID_PAYLOAD", "Card not found");
+  if (card.authorId !== playerId && room.hostId !== playerId) {
+    throw new RoomError("NOT_HOST", "Only the host can remove other players' cards");
+  }
+  room.customWhiteCards = room.customWhiteCards.filter(c => c.id !== cardId);
+  room.customBlackCards = room.customBlackCards.filter(c => c.id !== cardId);
+}
+
+/**
+ * Reject numeric settings outside their bounds, unknown packs, a player range that
+ * can't be met, or a game with no way to end. The settings panel keeps its inputs
+ * in range, so this only trips on hand-crafted payloads.
+ */
+function validateSettings(settings: GameSettings): void {
+  const advanced = (Object.entries(SETTING_BOUNDS) as [AdvancedSettingKey, readonly [number, number]][])
+    .map(([key, [min, max]]) => ({ key, min, max, nullable: false }));
+  for (const { key, min, max, nullable } of [...BASIC_SETTING_BOUNDS, ...advanced]) {
+    const value = settings[key];
+    if (value === null && nullable) continue;
+    if (typeof value !== "number" || !Number.isInteger(value) || value < min || value > max) {
+      throw new RoomError("INVALID_SETTINGS", `${key} must be a whole number from ${min} to ${max}`);
+    }
+  }
+  for (const { key, values } of SETTING_CHOICES) {
+    const value = settings[key];
+    if (typeof value !== "string" || !values.includes(value)) {
+      throw new RoomError("INVALID_SETTINGS", `${key} must be one of: ${values.join(", ")}`);
+    }
+  }
+  for (const key of BOOLEAN_SETTINGS) {
+    if (typeof settings[key] !== "boolean") {
+      throw new RoomError("INVALID_SETTINGS", `${key} must be true or false`);
+    }
+  }
+  if (settings.minPlayers > settings.maxPlayers) {
+    throw new RoomError("INVALID_SETTINGS", "minPlayers can't exceed maxPlayers");
+  }
+  if (settings.maxRounds === null && settings.pointsToWin === null) {
+    throw new RoomError("INVALID_SETTINGS", "Set a round limit or a target score so the game can end");
+  }
+  const knownPacks = new Set(CARD_PACKS.map(p => p.id));
+  if (
+    !Array.isArray(settings.packs) || settings.packs.length === 0
+    || !settings.packs.every(id => typeof id === "string" && knownPacks.has(id))
+  ) {
+    throw new RoomError("INVALID_SETTINGS", "Pick at least one known card pack");
+  }
+}
+
 /** Update game settings (lobby only). */
 export function updateSettings(room: Room, patch: Partial<GameSettings>): void {
-  room.settings = { ...room.settings, ...patch };
+  const next = { ...room.settings, ...patch };
+  validateSettings(next);
+  if (next.maxPlayers < room.players.length) {
+    throw new RoomError("INVALID_SETTINGS", "More players are already seated than maxPlayers allows");
+  }
+  room.settings = next;
 }
 
 // ── Serialisation helpers ──────────────────────────────────────────────────────
 
+/** Judging view of a submission: no playerId, and custom-card credits stay hidden until the reveal. */
+export function toAnonymousSubmission(s: Submission): AnonymousSubmission {
+  return {
+    id: s.anonymousId,
+    cards: s.cards.map(({ authorName: _authorName, ...card }) => card),
+  };
+}
+
 export function getPublicPlayer(player: Player, submittedIds: Set<string>): PublicPlayer {
   return {
     id: player.id,
@@ -173,6 +416,19 @@ export function getPublicPlayer(player: Player, submittedIds: Set<string>): Publ
   };
 }
 
+/** Rando Cardrissian dressed up as a player, for score lists and game-over winners. */
+export function getRandoPlayer(room: Room): PublicPlayer {
+  return {
+    id: RANDO_ID,
+    name: t("player.rando", nameLang(room)),
+    isBot: true,
+    isConnected: true,
+    isHost: false,
+    points: room.randoPoints,
+    hasSubmitted: room.submissions.some(s => s.playerId === RANDO_ID),
+  };
+}
+
 export function getPublicRoom(room: Room): PublicRoom {
   const submittedIds = new Set(room.submissions.map(s => s.playerId));
 
@@ -183,19 +439,57 @@ export function getPublicRoom(room: Room): PublicRoom {
     id: room.id,
     hostId: room.hostId,
     players: room.players.map(p => getPublicPlayer(p, submittedIds)),
+    spectatorCount: room.spectators.filter(s => s.isConnected).length,
     phase: room.phase,
     settings: {
       maxRounds: room.settings.maxRounds,
+      pointsToWin: room.settings.pointsToWin,
+      suddenDeath: room.settings.suddenDeath,
+      judgingMode: room.settings.judgingMode,
+      rando: room.settings.rando,
+      allowRedraw: room.settings.allowRedraw,
+      allowGambling: room.settings.allowGambling,
+      blackCardRerolls: room.settings.blackCardRerolls,
+      blackCardRerollScope: room.settings.blackCardRerollScope,
+      allowLateJoin: room.settings.allowLateJoin,
+      lateJoinCatchUp: room.settings.lateJoinCatchUp,
       submissionTimeLimitSec: room.settings.submissionTimeLimitSec,
+      hetmanPickTimeLimitSec: room.settings.hetmanPickTimeLimitSec,
+      judgingTimeLimitSec: room.settings.judgingTimeLimitSec,
       allowCustomCards: room.settings.allowCustomCards,
-      rotateHetman: room.settings.rotateHetman,
+      customCardsPerPlayer: room.settings.customCardsPerPlayer,
+      hetmanRotation: room.settings.hetmanRotation,
+      handSize: room.settings.handSize,
+      minPlayers: room.settings.minPlayers,
+      maxPlayers: room.settings.maxPlayers,
+      blackCardChoices: room.settings.blackCardChoices,
+      revealDelaySec: room.settings.revealDelaySec,
+      advanceDelaySec: room.settings.advanceDelaySec,
+      inactivityTimeoutMin: room.settings.inactivityTimeoutMin,
+      sessionLimitMin: room.settings.sessionLimitMin,
+      sessionExtensionMin: room.settings.sessionExtensionMin,
+      reconnectGraceMin: room.settings.reconnectGraceMin,
+      cardLanguage: room.settings.cardLanguage,
+      packs: room.settings.packs,
       hasPassword: room.settings.password !== null,
     },
     currentRound: room.currentRound,
     hetmanId: room.hetmanId,
     currentBlackCard: room.currentBlackCard,
-    submissions: room.submissions.map(s => ({ id: s.anonymousId, card: s.card })),
+    tieBreakPlayerIds: room.tieBreakPlayerIds,
+    lateJoinerIds: room.lateJoinerIds,
+    votedPlayerIds: Object.keys(room.votes),
+    rando: room.settings.rando ? getRandoPlayer(room) : null,
+    blackCardRerollsLeft: Math.max(0, room.settings.blackCardRerolls - room.blackCardRerollsUsed),
+    submissions: room.submissions.map(toAnonymousSubmission),
     revealedSubmissions: showFull ? room.submissions : [],
     submissionDeadline: room.submissionDeadline,
+    hetmanDeadline: room.hetmanDeadline,
+    paused: room.pausedAt !== null,
+    sessionDeadline: room.sessionDeadline,
+    sessionExtended: room.sessionExtended,
+    finishAfterRound: room.finishAfterRound,
+    customWhiteCards: room.phase === "lobby" ? room.customWhiteCards : [],
+    customBlackCards: room.phase === "lobby" ? room.customBlackCards : [],
   };
 }
@@ -6,9 +6,18 @@
  */
 import type { Room } from "../../lib/types";
 
-const INACTIVITY_MS   = 15 * 60_000;  // 15 minutes
-const SESSION_MS      = 60 * 60_000;  // 1 hour
-const RECONNECT_MS    =  5 * 60_000;  // 5 minutes grace before replacing with bot
+const HETMAN_GRACE_MS = 30_000;  // 30 seconds before an absent hetman is skipped
+const SESSION_WARNINGS_MIN = [10, 5, 1];  // players are warned this many minutes before the session limit
+const INACTIVITY_WARNING_MS = 60_000;     // "are you still there?" this long before an idle game ends
+
+// The inactivity watchdog keeps running while paused so an abandoned paused room still gets cleaned up,
+// and so do reconnect grace periods — otherwise a host who drops mid-pause is never replaced and the room stays frozen.
+const UNPAUSABLE = new Set(["inactivity"]);
+const UNPAUSABLE_PREFIXES = ["reconnect:"];
+
+function keepsRunning(key: string): boolean {
+  return UNPAUSABLE.has(key) || UNPAUSABLE_PREFIXES.some(prefix => key.startsWith(prefix));
+}
 
 // ── Helpers ────────────────────────────────────────────────────────────────────
 
@@ -18,29 +27,96 @@ function clearTimer(room: Room, key: string): void {
     clearTimeout(id);
     delete room.timers[key];
   }
+  delete room.timerTasks[key];
+}
+
+function armTimer(room: Room, key: string): void {
+  const task = room.timerTasks[key];
+  if (!task) return;
+  room.timers[key] = setTimeout(() => {
+    delete room.timers[key];
+    delete room.timerTasks[key];
+    task.run();
+  }, Math.max(0, task.dueAt - Date.now()));
 }
 
 // ── Public API ─────────────────────────────────────────────────────────────────
 
 /**
- * Reset the 15-minute inactivity watchdog.
+ * Schedule `onExpire` under `key`, replacing any timer already using that key.
+ * Every room timer goes through here so pausing can freeze it and resuming can re-arm it.
+ * While the room is paused the timer is only recorded; it starts counting on resume.
+ */
+export function scheduleTimer(room: Room, key: string, ms: number, onExpire: () => void): void {
+  clearTimer(room, key);
+  const frozen = room.pausedAt !== null && !keepsRunning(key);
+  room.timerTasks[key] = { dueAt: (frozen ? room.pausedAt! : Date.now()) + ms, run: onExpire };
+  if (!frozen) armTimer(room, key);
+}
+
+/** Whether a timer is pending under `key` (running, or frozen by a pause). */
+export function hasTimer(room: Room, key: string): boolean {
+  return room.timerTasks[key] !== undefined;
+}
+
+/** Freeze every pausable timer; the remaining time is kept in `room.timerTasks`. */
+export function pauseTimers(room: Room): void {
+  for (const [key, id] of Object.entries(room.timers)) {
+    if (keepsRunning(key)) continue;
+    clearTimeout(id);
+    delete room.timers[key];
+  }
+}
+
+/** Re-arm the timers frozen by `pauseTimers`, pushing each deadline back by `pausedMs`. */
+export function resumeTimers(room: Room, pausedMs: number): void {
+  for (const [key, task] of Object.entries(room.timerTasks)) {
+    if (room.timers[key] !== undefined) continue;
+    task.dueAt += pausedMs;
+    armTimer(room, key);
+  }
+}
+
+/**
+ * Reset the inactivity watchdog (`settings.inactivityTimeoutMin`).
+ * `onWarning` runs a minute before the end with the time left; `onExpire` only if nothing resets it meanwhile.
  * Must be called on every incoming WS message.
  */
-export function resetInactivityTimer(room: Room, onExpire: () => void): void {
-  clearTimer(room, "inactivity");
-  room.timers["inactivity"] = setTimeout(() => {
-    delete room.timers["inactivity"];
-    onExpire();
-  }, INACTIVITY_MS);
+export function resetInactivityTimer(
+  room: Room,
+  onWarning: (msLeft: number) => void,
+  onExpire: () => void,
+): void {
+  const timeoutMs = room.settings.inactivityTimeoutMin * 60_000;
+  scheduleTimer(room, "inactivity", timeoutMs - INACTIVITY_WARNING_MS, () => {
+    onWarning(INACTIVITY_WARNING_MS);
+    scheduleTimer(room, "inactivity", INACTIVITY_WARNING_MS, onExpire);
+  });
+}
+
+/**
+ * Arm the hard session limit to fire at `room.sessionDeadline`, plus `onWarning`
+ * for each of SESSION_WARNINGS_MIN still ahead. Call again whenever the deadline moves.
+ */
+export function startSessionTimer(
+  room: Room,
+  onWarning: (minutesLeft: number) => void,
+  onExpire: () => void,
+): void {
+  cancelSessionTimer(room);
+  if (room.sessionDeadline === null) return;
+  const msLeft = room.sessionDeadline - (room.pausedAt ?? Date.now());
+  for (const minutes of SESSION_WARNINGS_MIN) {
+    const warnIn = msLeft - minutes * 60_000;
+    if (warnIn > 0) scheduleTimer(room, `session_warn:${minutes}`, warnIn, () => onWarning(minutes));
+  }
+  scheduleTimer(room, "session", Math.max(0, msLeft), onExpire);
 }
 
-/** Start the 1-hour hard session limit. Call once when the game starts. */
-export function startSessionTimer(room: Room, onExpire: () => void): void {
+/** Cancel the session limit and its pending warnings. */
+export function cancelSessionTimer(room: Room): void {
   clearTimer(room, "session");
-  room.timers["session"] = setTimeout(() => {
-    delete room.timers["session"];
-    onExpire();
-  }, SESSION_MS);
+  for (const minutes of SESSION_WARNINGS_MIN) clearTimer(room, `session_warn:${minutes}`);
 }
 
 /**
@@ -51,10 +127,7 @@ export function startSessionTimer(room: Room, onExpire: () => void): void {
 export function startSubmissionTimer(room: Room, onExpire: () => void): void {
   clearTimer(room, "submission");
   if (!room.settings.submissionTimeLimitSec) return;
-  room.timers["submission"] = setTimeout(() => {
-    delete room.timers["submission"];
-    onExpire();
-  }, room.settings.submissionTimeLimitSec * 1_000);
+  scheduleTimer(room, "submission", room.settings.submissionTimeLimitSec * 1_000, onExpire);
 }
 
 /** Cancel the submission timer (e.g. everyone submitted early). */
@@ -62,6 +135,22 @@ export function cancelSubmissionTimer(room: Room): void {
   clearTimer(room, "submission");
 }
 
+/**
+ * Countdown for the Hetman's turn: `settings.hetmanPickTimeLimitSec` while picking
+ * the black card, `settings.judgingTimeLimitSec` while judging (or while everyone
+ * votes in democracy mode). Does nothing when the limit is off. `onExpire` should make the choice for them.
+ */
+export function startHetmanTurnTimer(room: Room, limitSec: number | null, onExpire: () => void): void {
+  clearTimer(room, "hetman_turn");
+  if (!limitSec) return;
+  scheduleTimer(room, "hetman_turn", limitSec * 1_000, onExpire);
+}
+
+/** Cancel the Hetman turn timer (they picked in time). */
+export function cancelHetmanTurnTimer(room: Room): void {
+  clearTimer(room, "hetman_turn");
+}
+
 /**
  * Start the reconnect grace period for a disconnected player.
  * If they don't reconnect in time, `onExpire` should replace them with a bot.
@@ -71,12 +160,7 @@ export function startReconnectTimer(
   playerId: string,
   onExpire: () => void,
 ): void {
-  const key = `reconnect:${playerId}`;
-  clearTimer(room, key);
-  room.timers[key] = setTimeout(() => {
-    delete room.timers[key];
-    onExpire();
-  }, RECONNECT_MS);
+  scheduleTimer(room, `reconnect:${playerId}`, room.settings.reconnectGraceMin * 60_000, onExpire);
 }
 
 /** Cancel the reconnect timer for a player who came back. */
@@ -84,11 +168,25 @@ export function cancelReconnectTimer(room: Room, playerId: string): void {
   clearTimer(room, `reconnect:${playerId}`);
 }
 
+/**
+ * Start the grace period for a hetman who is offline while the black card is
+ * being picked. If they don't come back in time, `onExpire` should pass the seat on.
+ */
+export function startHetmanGraceTimer(room: Room, onExpire: () => void): void {
+  scheduleTimer(room, "hetman_grace", HETMAN_GRACE_MS, onExpire);
+}
+
+/** Cancel the absent-hetman grace timer (they reconnected, or picked in time). */
+export function cancelHetmanGraceTimer(room: Room): void {
+  clearTimer(room, "hetman_grace");
+}
+
 /** Clear every active timer for a room. Call when the game ends / room is removed. */
 export function clearAllTimers(room: Room): void {
   for (const id of Object.values(room.timers)) {
     clearTimeout(id);
   }
   room.timers = {};
+  room.timerTasks = {};
 }
 
@@ -5,7 +5,7 @@
  * POST /api/rooms/:id/join   — join a room
  * GET  /api/rooms/:id        — get public room info
  */
-import { createRoom, joinRoom, getPublicRoom, rooms, RoomError } from "./game/room";
+import { createRoom, joinRoom, joinAsSpectator, getPublicRoom, rooms, RoomError } from "./game/room";
 import { broadcast } from "./ws/broadcast";
 import { SERVER_EVENTS } from "./ws/events";
 import type { GameSettings } from "../lib/types";
@@ -74,18 +74,23 @@ export async function handleCreateRoom(req: Request): Promise<Response> {
     return err("INVALID_PAYLOAD", "playerName is required", 400);
   }
 
-  const { room, host } = createRoom(body.playerName, body.settings ?? {});
+  try {
+    const { room, host } = createRoom(body.playerName, body.settings ?? {});
 
-  return json({
-    roomId: room.id,
-    token: host.token,
-    playerId: host.id,
-  }, 201);
+    return json({
+      roomId: room.id,
+      token: host.token,
+      playerId: host.id,
+    }, 201);
+  } catch (e) {
+    if (e instanceof RoomError) return err(e.code, e.message, 400);
+    return err("INTERNAL", "Internal server error", 500);
+  }
 }
 
-/** POST /api/rooms/:id/join */
+/** POST /api/rooms/:id/join — `spectator: true` watches instead of taking a seat */
 export async function handleJoinRoom(req: Request, roomId: string): Promise<Response> {
-  let body: { playerName?: string; password?: string };
+  let body: { playerName?: string; password?: string; spectator?: boolean };
   try {
     body = await parseBody(req);
   } catch (e: unknown) {
@@ -98,6 +103,11 @@ export async function handleJoinRoom(req: Request, roomId: string): Promise<Resp
   }
 
   try {
+    if (body.spectator === true) {
+      const { room, spectator } = joinAsSpectator(roomId, body.playerName, body.password);
+      return json({ roomId: room.id, token: spectator.token, playerId: spectator.id, spectator: true }, 200);
+    }
+
     const { room, player } = joinRoom(roomId, body.playerName, body.password);
 
     // Notify existing players
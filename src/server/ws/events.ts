@@ -4,11 +4,22 @@
 export const CLIENT_EVENTS = {
   SUBMIT_CARD: "submit_card",
   SELECT_WINNER: "select_winner",
+  CAST_VOTE: "cast_vote",
+  REDRAW_HAND: "redraw_hand",
+  RETRACT_SUBMISSION: "retract_submission",
   PICK_BLACK_CARD: "pick_black_card",
+  REROLL_BLACK_CARDS: "reroll_black_cards",
   START_GAME: "start_game",
   ADD_BOT: "add_bot",
   REMOVE_PLAYER: "remove_player",
   UPDATE_SETTINGS: "update_settings",
+  RESTART_GAME: "restart_game",
+  PAUSE_GAME: "pause_game",
+  RESUME_GAME: "resume_game",
+  EXTEND_SESSION: "extend_session",
+  FINISH_AFTER_ROUND: "finish_after_round",
+  ADD_CUSTOM_CARD: "add_custom_card",
+  REMOVE_CUSTOM_CARD: "remove_custom_card",
   CHAT_MESSAGE: "chat_message",
   PING: "ping",
 } as const;
@@ -24,6 +35,10 @@ export const SERVER_EVENTS = {
   BLACK_CARD_PICKED: "black_card_picked",
   SUBMISSION_RECEIVED: "submission_received",
   ALL_SUBMITTED: "all_submitted",
+  YOUR_SUBMISSION: "your_submission",
+  SUBMISSION_RETRACTED: "submission_retracted",
+  HAND_REDRAWN: "hand_redrawn",
+  HETMAN_SKIPPED: "hetman_skipped",
   WINNER_SELECTED: "winner_selected",
   ROUND_END: "round_end",
   GAME_OVER: "game_over",
@@ -32,6 +47,11 @@ export const SERVER_EVENTS = {
   PLAYER_DISCONNECTED: "player_disconnected",
   PLAYER_REPLACED_BY_BOT: "player_replaced_by_bot",
   SETTINGS_UPDATED: "settings_updated",
+  GAME_RESTARTED: "game_restarted",
+  SESSION_WARNING: "session_warning",
+  SESSION_EXTENDED: "session_extended",
+  INACTIVITY_WARNING: "inactivity_warning",
+  INACTIVITY_CLEARED: "inactivity_cleared",
   ERROR: "error",
   PONG: "pong",
 } as const;
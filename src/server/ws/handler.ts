@@ -12,11 +12,14 @@ import { broadcast, sendToPlayer } from "./broadcast";
 import {
   rooms,
   getPlayerByToken,
+  getSpectatorByToken,
   getPublicRoom,
   getPublicPlayer,
   addBot,
   replaceWithBot,
   updateSettings,
+  addCustomCard,
+  removeCustomCard,
   RoomError,
 } from "../game/room";
 import {
@@ -24,28 +27,54 @@ import {
   dealRound,
   submitCard,
   selectWinner,
+  castVote,
+  redrawHand,
+  retractSubmission,
   pickBlackCard,
+  rerollBlackCards,
+  skipAbsentHetman,
   broadcastRoomState,
-  endGame,
+  restartGame,
+  pauseGame,
+  resumeGame,
+  extendSession,
+  finishAfterRound,
+  touchActivity,
 } from "../game/engine";
 import {
   scheduleBotActionsAfterDeal,
   scheduleBotHetmanTurn,
   scheduleBotBlackCardPick,
+  scheduleBotForCurrentPhase,
+  scheduleBotVotes,
 } from "../game/bot";
 import {
-  resetInactivityTimer,
   startReconnectTimer,
   cancelReconnectTimer,
+  startHetmanGraceTimer,
+  cancelHetmanGraceTimer,
 } from "../game/timers";
-import type { GameSettings } from "../../lib/types";
+import type { Room, Spectator, GameSettings, CustomCardKind } from "../../lib/types";
 
 export interface WsData {
   roomId: string;
   playerId: string;
   token: string;
+  /** Set on open when the token belongs to a spectator — their socket is read-only. */
+  isSpectator?: boolean;
 }
 
+/** Round actions that are refused while the host has the game paused. */
+const GAME_ACTIONS: ReadonlySet<string> = new Set([
+  CLIENT_EVENTS.SUBMIT_CARD,
+  CLIENT_EVENTS.RETRACT_SUBMISSION,
+  CLIENT_EVENTS.REDRAW_HAND,
+  CLIENT_EVENTS.SELECT_WINNER,
+  CLIENT_EVENTS.CAST_VOTE,
+  CLIENT_EVENTS.PICK_BLACK_CARD,
+  CLIENT_EVENTS.REROLL_BLACK_CARDS,
+]);
+
 // ── WS lifecycle ───────────────────────────────────────────────────────────────
 
 /**
@@ -59,6 +88,7 @@ function ensureRoomHooks(room: ReturnType<typeof rooms.get> & object): void {
     const hetman = r.players.find(p => p.id === r.hetmanId);
     if (hetman?.isBot) scheduleBotHetmanTurn(r, hetman.id);
   };
+  room.onVotingStart = (r) => scheduleBotVotes(r);
   room.onHetmanPick = (r) => {
     const hetman = r.players.find(p => p.id === r.hetmanId);
     if (hetman?.isBot) scheduleBotBlackCardPick(r, hetman.id);
@@ -69,6 +99,14 @@ export function handleOpen(ws: ServerWebSocket<WsData>): void {
   const { roomId, token } = ws.data;
   const found = getPlayerByToken(token);
 
+  if (!found) {
+    const watching = getSpectatorByToken(token);
+    if (watching && watching.room.id === roomId) {
+      openSpectator(ws, watching.room, watching.spectator);
+      return;
+    }
+  }
+
   if (!found || found.room.id !== roomId) {
     // Close with 4001 so the client distinguishes auth failure from network error
     ws.close(4001, "Invalid token or room");
@@ -85,6 +123,7 @@ export function handleOpen(ws: ServerWebSocket<WsData>): void {
 
   // Cancel reconnect grace timer if running
   cancelReconnectTimer(room, player.id);
+  if (player.id === room.hetmanId) cancelHetmanGraceTimer(room);
 
   // Subscribe to room-wide and player-private topics
   ws.subscribe(`room:${room.id}`);
@@ -116,9 +155,32 @@ export function handleOpen(ws: ServerWebSocket<WsData>): void {
     });
   }
 
+  // Re-send which anonymous cards are theirs if a player reconnects mid-round
+  if (room.phase === "submitting" || room.phase === "voting") {
+    for (const s of room.submissions.filter(s => s.playerId === player.id)) {
+      sendToPlayer(player.id, SERVER_EVENTS.YOUR_SUBMISSION, { submissionId: s.anonymousId, cards: s.cards });
+    }
+  }
+
   // Reset inactivity
-  room.lastActivityAt = Date.now();
-  resetInactivityTimer(room, () => endGame(room, "inactivity"));
+  touchActivity(room);
+}
+
+/** Spectators only subscribe to the room topic — they never see a hand or private event. */
+function openSpectator(ws: ServerWebSocket<WsData>, room: Room, spectator: Spectator): void {
+  spectator.isConnected = true;
+  ws.data.playerId = spectator.id;
+  ws.data.isSpectator = true;
+
+  ws.subscribe(`room:${room.id}`);
+  ws.send(
+    JSON.stringify({
+      event: SERVER_EVENTS.ROOM_STATE,
+      payload: { room: getPublicRoom(room), myPlayer: null, myHand: [], spectator: true },
+    }),
+  );
+  // Everyone else sees the spectator count go up
+  broadcastRoomState(room);
 }
 
 export function handleClose(ws: ServerWebSocket<WsData>): void {
@@ -126,6 +188,16 @@ export function handleClose(ws: ServerWebSocket<WsData>): void {
   const room = rooms.get(roomId);
   if (!room) return;
 
+  if (ws.data.isSpectator) {
+    const spectator = room.spectators.find(s => s.id === playerId);
+    if (spectator) {
+      spectator.isConnected = false;
+      spectator.lastSeenAt = Date.now();
+    }
+    broadcastRoomState(room);
+    return;
+  }
+
   const player = room.players.find(p => p.id === playerId);
   if (!player || player.isBot) return;
 
@@ -133,6 +205,11 @@ export function handleClose(ws: ServerWebSocket<WsData>): void {
   broadcast(room.id, SERVER_EVENTS.PLAYER_DISCONNECTED, { playerId });
   broadcastRoomState(room);
 
+  // A hetman who drops out while picking the black card is skipped after a short grace period
+  if (room.phase === "hetmanPicking" && playerId === room.hetmanId) {
+    startHetmanGraceTimer(room, () => skipAbsentHetman(room));
+  }
+
   // Start reconnect grace timer — if they don't come back, replace with bot
   if (room.phase !== "lobby" && room.phase !== "gameOver") {
     startReconnectTimer(room, playerId, () => {
@@ -149,14 +226,7 @@ export function handleClose(ws: ServerWebSocket<WsData>): void {
           botName: bot.name,
         });
         broadcastRoomState(currentRoom);
-        // If the replaced player was supposed to submit, schedule bot
-        if (currentRoom.phase === "submitting" && bot.id !== currentRoom.hetmanId) {
-          scheduleBotActionsAfterDeal(currentRoom);
-        }
-        // If the replaced player was the hetman picking a black card, schedule bot pick
-        if (currentRoom.phase === "hetmanPicking" && bot.id === currentRoom.hetmanId) {
-          scheduleBotBlackCardPick(currentRoom, bot.id);
-        }
+        scheduleBotForCurrentPhase(currentRoom, bot.id);
       } catch {
         // Ignore if player was already replaced
       }
@@ -169,10 +239,6 @@ export function handleMessage(ws: ServerWebSocket<WsData>, raw: string | Buffer)
   const room = rooms.get(roomId);
   if (!room) return;
 
-  // Touch inactivity
-  room.lastActivityAt = Date.now();
-  resetInactivityTimer(room, () => endGame(room, "inactivity"));
-
   let msg: { event: string; payload?: unknown };
   try {
     msg = JSON.parse(typeof raw === "string" ? raw : raw.toString());
@@ -181,6 +247,19 @@ export function handleMessage(ws: ServerWebSocket<WsData>, raw: string | Buffer)
     return;
   }
 
+  // Spectators are read-only, and watching doesn't keep an idle game alive
+  if (ws.data.isSpectator) {
+    if (msg.event === CLIENT_EVENTS.PING) {
+      ws.send(JSON.stringify({ event: SERVER_EVENTS.PONG, payload: {} }));
+    } else {
+      sendError(ws, "SPECTATOR_READ_ONLY", "Spectators can't act in the game");
+    }
+    return;
+  }
+
+  // Touch inactivity (this is also how the "I'm here" keep-alive ping answers a warning)
+  touchActivity(room);
+
   try {
     dispatch(ws, room, playerId, msg.event, msg.payload);
   } catch (err) {
@@ -203,6 +282,10 @@ function dispatch(
   event: string,
   payload: unknown,
 ): void {
+  if (room.pausedAt !== null && GAME_ACTIONS.has(event)) {
+    throw new RoomError("GAME_PAUSED", "The game is paused");
+  }
+
   switch (event) {
     case CLIENT_EVENTS.PING:
       ws.send(JSON.stringify({ event: SERVER_EVENTS.PONG, payload: {} }));
@@ -216,6 +299,36 @@ function dispatch(
       break;
     }
 
+    case CLIENT_EVENTS.RESTART_GAME: {
+      assertHost(room, playerId);
+      restartGame(room); // clients follow the phase change back to the lobby
+      break;
+    }
+
+    case CLIENT_EVENTS.PAUSE_GAME: {
+      assertHost(room, playerId);
+      pauseGame(room);
+      break;
+    }
+
+    case CLIENT_EVENTS.RESUME_GAME: {
+      assertHost(room, playerId);
+      resumeGame(room);
+      break;
+    }
+
+    case CLIENT_EVENTS.EXTEND_SESSION: {
+      assertHost(room, playerId);
+      extendSession(room);
+      break;
+    }
+
+    case CLIENT_EVENTS.FINISH_AFTER_ROUND: {
+      assertHost(room, playerId);
+      finishAfterRound(room);
+      break;
+    }
+
     case CLIENT_EVENTS.ADD_BOT: {
       assertHost(room, playerId);
       if (room.phase !== "lobby") throw new RoomError("GAME_ALREADY_STARTED", "Game already started");
@@ -235,16 +348,7 @@ function dispatch(
         botName: bot.name,
       });
       broadcastRoomState(room);
-      // Schedule bot for current phase
-      if (room.phase === "submitting" && bot.id !== room.hetmanId) {
-        scheduleBotActionsAfterDeal(room);
-      }
-      if (room.phase === "judging" && room.hetmanId === bot.id) {
-        scheduleBotHetmanTurn(room, bot.id);
-      }
-      if (room.phase === "hetmanPicking" && room.hetmanId === bot.id) {
-        scheduleBotBlackCardPick(room, bot.id);
-      }
+      scheduleBotForCurrentPhase(room, bot.id);
       break;
     }
 
@@ -258,24 +362,66 @@ function dispatch(
       break;
     }
 
+    case CLIENT_EVENTS.ADD_CUSTOM_CARD: {
+      const { text, kind } = assertPayload<{ text: string; kind?: CustomCardKind }>(payload, ["text"]);
+      addCustomCard(room, playerId, String(text), kind === "black" ? "black" : "white");
+      broadcastRoomState(room);
+      break;
+    }
+
+    case CLIENT_EVENTS.REMOVE_CUSTOM_CARD: {
+      const { cardId } = assertPayload<{ cardId: string }>(payload, ["cardId"]);
+      removeCustomCard(room, playerId, cardId);
+      broadcastRoomState(room);
+      break;
+    }
+
     case CLIENT_EVENTS.SUBMIT_CARD: {
-      const { card } = assertPayload<{ card: string }>(payload, ["card"]);
-      submitCard(room, playerId, card);
+      const { cardIds, wager } = assertPayload<{ cardIds: string[]; wager?: boolean }>(payload, ["cardIds"]);
+      if (!Array.isArray(cardIds) || !cardIds.every(id => typeof id === "string")) {
+        throw new Error("INVALID_PAYLOAD");
+      }
+      submitCard(room, playerId, cardIds, wager === true);
       // onJudgingStart callback handles bot hetman scheduling automatically.
       // Confirm privately to submitter
       sendToPlayer(playerId, SERVER_EVENTS.CARDS_DEALT, { hand: room.players.find(p => p.id === playerId)?.hand ?? [] });
       break;
     }
 
+    case CLIENT_EVENTS.RETRACT_SUBMISSION: {
+      const { submissionId } = assertPayload<{ submissionId: string }>(payload, ["submissionId"]);
+      retractSubmission(room, playerId, submissionId);
+      break;
+    }
+
+    case CLIENT_EVENTS.REDRAW_HAND: {
+      redrawHand(room, playerId);
+      break;
+    }
+
     case CLIENT_EVENTS.SELECT_WINNER: {
+      const { ranking } = assertPayload<{ ranking: string[] }>(payload, ["ranking"]);
+      if (!Array.isArray(ranking) || !ranking.every(id => typeof id === "string")) {
+        throw new Error("INVALID_PAYLOAD");
+      }
+      selectWinner(room, playerId, ranking);
+      break;
+    }
+
+    case CLIENT_EVENTS.CAST_VOTE: {
       const { submissionId } = assertPayload<{ submissionId: string }>(payload, ["submissionId"]);
-      selectWinner(room, playerId, submissionId);
+      castVote(room, playerId, submissionId);
       break;
     }
 
     case CLIENT_EVENTS.PICK_BLACK_CARD: {
-      const { card } = assertPayload<{ card: string }>(payload, ["card"]);
-      pickBlackCard(room, playerId, card);
+      const { cardId } = assertPayload<{ cardId: string }>(payload, ["cardId"]);
+      pickBlackCard(room, playerId, cardId);
+      break;
+    }
+
+    case CLIENT_EVENTS.REROLL_BLACK_CARDS: {
+      rerollBlackCards(room, playerId);
       break;
     }
 